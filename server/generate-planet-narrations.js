@@ -1,6 +1,6 @@
-import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { readFile, writeFile, mkdir, rm } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import { join, dirname } from "node:path";
+import { basename, join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
@@ -11,12 +11,21 @@ if (!ELEVENLABS_API_KEY) {
 
 const MODEL_ID = "eleven_v3";
 const VOICE_API_BASE = "https://api.elevenlabs.io/v1/text-to-speech";
+// Times the words of audio that already exists, without generating it again
+const ALIGNMENT_API = "https://api.elevenlabs.io/v1/forced-alignment";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const ROOT = join(__dirname, "..");
-const DATA_PATH = join(ROOT, "src", "voice", "narration-data.json");
-const OUTPUT_DIR = join(ROOT, "static", "audio");
+
+// --lang=es reads src/voice/locales/es.narration.json and writes to static/audio/es/
+const langArg = process.argv.find((arg) => arg.startsWith("--lang="));
+const LANGUAGE = langArg ? langArg.slice("--lang=".length).trim().toLowerCase() : "en";
+const DATA_PATH =
+  LANGUAGE === "en"
+    ? join(ROOT, "src", "voice", "narration-data.json")
+    : join(ROOT, "src", "voice", "locales", `${LANGUAGE}.narration.json`);
+const OUTPUT_DIR = LANGUAGE === "en" ? join(ROOT, "static", "audio") : join(ROOT, "static", "audio", LANGUAGE);
 
 const force = process.argv.includes("--force");
 const onlyArg = process.argv.find((arg) => arg.startsWith("--only="));
@@ -37,15 +46,17 @@ if (!Array.isArray(payload) || payload.length === 0) {
   process.exit(1);
 }
 
-const seenVoices = new Set(payload.map((entry) => entry.voiceId));
-if (seenVoices.size !== payload.length) {
+// Entries without a voice have no clip; the browser speaks their text instead
+const voiced = payload.filter((entry) => entry?.voiceId);
+const seenVoices = new Set(voiced.map((entry) => entry.voiceId));
+if (seenVoices.size !== voiced.length) {
   console.warn("Warning: Duplicate voice IDs detected in narration-data.json. Each narration should use a unique voice.");
 }
 
 await mkdir(OUTPUT_DIR, { recursive: true });
 
 for (const entry of payload) {
-  if (!entry || typeof entry.name !== "string" || typeof entry.text !== "string" || typeof entry.voiceId !== "string") {
+  if (!entry || typeof entry.name !== "string" || typeof entry.text !== "string") {
     console.warn("Skipping invalid entry", entry);
     continue;
   }
@@ -54,20 +65,34 @@ for (const entry of payload) {
   if (onlyFilter && !onlyFilter.has(key)) {
     continue;
   }
+  if (typeof entry.voiceId !== "string") {
+    console.log(`Skipping ${entry.name} (no voiceId; spoken by the browser)`);
+    continue;
+  }
 
   const slug = slugify(entry.name);
   const outputFile = join(OUTPUT_DIR, `narration-${slug}.mp3`);
+  // Word timing for captions, e.g. { "words": [{ "text": "Mars", "start": 0.1, "end": 0.4 }] }
+  const timingFile = join(OUTPUT_DIR, `narration-${slug}.json`);
 
   if (!force && existsSync(outputFile)) {
-    console.log(`Skipping ${entry.name} (already exists)`);
+    if (existsSync(timingFile)) {
+      console.log(`Skipping ${entry.name} (already exists)`);
+      continue;
+    }
+    console.log(`Timing the existing narration for ${entry.name}…`);
+    const words = await alignClip(outputFile, entry.text, entry.name);
+    if (words) {
+      await saveTiming(timingFile, words, entry.name);
+    }
     continue;
   }
 
   console.log(`Generating narration for ${entry.name} using voice ${entry.voiceId}…`);
-  const response = await fetch(`${VOICE_API_BASE}/${entry.voiceId}`, {
+  const response = await fetch(`${VOICE_API_BASE}/${entry.voiceId}/with-timestamps`, {
     method: "POST",
     headers: {
-      Accept: "audio/mpeg",
+      Accept: "application/json",
       "Content-Type": "application/json",
       "xi-api-key": ELEVENLABS_API_KEY,
     },
@@ -89,13 +114,73 @@ for (const entry of payload) {
     continue;
   }
 
-  const buffer = Buffer.from(await response.arrayBuffer());
-  await writeFile(outputFile, buffer);
+  const data = await response.json();
+  await writeFile(outputFile, Buffer.from(data.audio_base64, "base64"));
   console.log(`Saved ${outputFile}`);
+
+  await saveTiming(timingFile, wordTimings(data.alignment), entry.name);
 }
 
 console.log("Narration generation complete.");
 
+// Writes word timing next to a clip, removing any left from an earlier clip when there is none.
+async function saveTiming(timingFile, words, name) {
+  if (words.length > 0) {
+    await writeFile(timingFile, `${JSON.stringify({ words }, null, 2)}\n`);
+    console.log(`Saved ${timingFile}`);
+    return;
+  }
+  await rm(timingFile, { force: true });
+  console.warn(`No timing returned for ${name}; captions will be paced evenly.`);
+}
+
+// Times the words of an existing clip against its text; null if the request failed.
+async function alignClip(outputFile, text, name) {
+  const form = new FormData();
+  form.append("file", new Blob([await readFile(outputFile)], { type: "audio/mpeg" }), basename(outputFile));
+  form.append("text", text);
+  const response = await fetch(ALIGNMENT_API, {
+    method: "POST",
+    headers: { "xi-api-key": ELEVENLABS_API_KEY },
+    body: form,
+  });
+  if (!response.ok) {
+    const detail = await safeRead(response);
+    console.error(`Failed to time narration for ${name}: ${response.status} ${detail}`);
+    return null;
+  }
+  const data = await response.json();
+  return (Array.isArray(data.words) ? data.words : [])
+    .filter((word) => typeof word?.text === "string" && word.text.trim())
+    .map(({ text, start, end }) => ({ text: text.trim(), start: round(start), end: round(end) }));
+}
+
+// Groups per-character timing into words, splitting on whitespace.
+function wordTimings(alignment) {
+  const characters = alignment?.characters ?? [];
+  const starts = alignment?.character_start_times_seconds ?? [];
+  const ends = alignment?.character_end_times_seconds ?? [];
+  const words = [];
+  let word = null;
+  characters.forEach((character, index) => {
+    if (/\s/.test(character)) {
+      word = null;
+      return;
+    }
+    if (!word) {
+      word = { text: "", start: starts[index], end: ends[index] };
+      words.push(word);
+    }
+    word.text += character;
+    word.end = ends[index];
+  });
+  return words.map(({ text, start, end }) => ({ text, start: round(start), end: round(end) }));
+}
+
+function round(seconds) {
+  return Math.round(seconds * 1000) / 1000;
+}
+
 function slugify(value) {
   return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-");
 }
@@ -24,7 +24,27 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const ROOT = join(__dirname, "..");
 const PLANETS_PATH = join(ROOT, "src", "planets.json");
-const OUTPUT_DIR = join(ROOT, "static", "audio");
+
+// --lang=es writes to static/audio/es/, naming bodies as the locale's narration does
+const langArg = process.argv.find((arg) => arg.startsWith("--lang="));
+const LANGUAGE = langArg ? langArg.slice("--lang=".length).trim().toLowerCase() : "en";
+const OUTPUT_DIR = LANGUAGE === "en" ? join(ROOT, "static", "audio") : join(ROOT, "static", "audio", LANGUAGE);
+const PROMPTS = {
+  en: (title) => `Welcome to ${title}.`,
+  es: (title) => `Bienvenido a ${title}.`,
+  fr: (title) => `Bienvenue sur ${title}.`,
+};
+if (!PROMPTS[LANGUAGE]) {
+  console.error(`No welcome prompt for language "${LANGUAGE}".`);
+  process.exit(1);
+}
+const titles = new Map();
+if (LANGUAGE !== "en") {
+  const narration = JSON.parse(await readFile(join(ROOT, "src", "voice", "locales", `${LANGUAGE}.narration.json`), "utf8"));
+  for (const entry of narration) {
+    titles.set(entry.name, entry.title);
+  }
+}
 
 const force = process.argv.includes("--force");
 const onlyArg = process.argv.find((arg) => arg.startsWith("--only="));
@@ -111,7 +131,7 @@ function slugify(value) {
 }
 
 function buildPrompt(name) {
-  return `Welcome to ${name}.`;
+  return PROMPTS[LANGUAGE](titles.get(name) ?? name);
 }
 
 async function safeRead(response) {
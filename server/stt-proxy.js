@@ -1,7 +1,22 @@
+import { createHash } from "node:crypto";
 import { createServer } from "node:http";
 
+import planets from "../src/planets.json" with { type: "json" };
+import { IntentParser, grammarFor, questionBodies } from "../src/voice/grammar.ts";
+import { MOCK_TRANSCRIPTS as DEFAULT_MOCK_TRANSCRIPTS } from "../src/voice/mockTranscripts.ts";
+
 const PORT = Number(process.env.STT_PROXY_PORT ?? 4000);
+// Provider used when a request does not name one: "elevenlabs", "local" or "mock"
+const DEFAULT_PROVIDER = process.env.STT_PROVIDER || "elevenlabs";
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || "";
+// Locally hosted recogniser, e.g. the whisper.cpp server
+const LOCAL_STT_URL = process.env.LOCAL_STT_URL || "http://127.0.0.1:8080/inference";
+// Scripted transcripts for the mock provider, separated by "|"; the browser's mock list by default
+const MOCK_TRANSCRIPTS = process.env.STT_MOCK_TRANSCRIPTS
+  ? process.env.STT_MOCK_TRANSCRIPTS.split("|")
+      .map((text) => text.trim())
+      .filter(Boolean)
+  : DEFAULT_MOCK_TRANSCRIPTS;
 const ENDPOINTS = [
   "https://api.elevenlabs.io/v1/speech-to-text/convert",
   // Fallbacks in case of routing changes
@@ -9,6 +24,11 @@ const ENDPOINTS = [
   "https://api.elevenlabs.io/v1/speech-to-text/transcriptions",
 ];
 const ROUTE = "/api/stt/transcriptions";
+const STREAM_ROUTE = "/api/stt/stream";
+// Minimum time between interim transcripts on a stream, in ms
+const INTERIM_INTERVAL = 1000;
+// Largest utterance a stream may send, in bytes
+const MAX_STREAM_BYTES = 10 * 1024 * 1024;
 
 const baseHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -112,16 +132,20 @@ const server = createServer(async (request, response) => {
     return;
   }
 
-  if (!ELEVENLABS_API_KEY) {
-    respond(response, 500, { error: "ELEVENLABS_API_KEY is not configured" });
+  await handleTranscription(request, response);
+});
+
+server.on("upgrade", (request, socket) => {
+  if (request.url !== STREAM_ROUTE) {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
     return;
   }
-
-  await handleTranscription(request, response);
+  handleStream(acceptWebSocket(request, socket));
 });
 
 server.listen(PORT, () => {
-  console.log(`[stt-proxy] Listening on http://localhost:${PORT}${ROUTE}`);
+  console.log(`[stt-proxy] Listening on http://localhost:${PORT}${ROUTE} (default provider: ${DEFAULT_PROVIDER})`);
+  console.log(`[stt-proxy] Streaming on ws://localhost:${PORT}${STREAM_ROUTE}`);
 });
 
 async function handleTranscription(request, response) {
@@ -134,28 +158,316 @@ async function handleTranscription(request, response) {
     return;
   }
 
-  const { audioBase64, mimeType = "audio/webm", languageCode, modelId, diarize, numSpeakers, timestampsGranularity, tagAudioEvents, candidates = [], classify = false } =
-    payload || {};
+  const { audioBase64, languageCode, candidates = [], aliases, classify = false } = payload || {};
 
-  if (!audioBase64) {
+  const providerId = payload?.provider || DEFAULT_PROVIDER;
+  const provider = PROVIDERS[providerId];
+  if (!provider) {
+    respond(response, 400, { error: `Unknown STT provider: ${providerId}` });
+    return;
+  }
+
+  // The mock provider ignores audio, so it may be left out
+  if (!audioBase64 && providerId !== "mock") {
     respond(response, 400, { error: "audioBase64 is required" });
     return;
   }
 
-  let audioBuffer;
+  let audioBuffer = Buffer.alloc(0);
   try {
-    audioBuffer = decodeAudio(audioBase64);
+    if (audioBase64) {
+      audioBuffer = decodeAudio(audioBase64);
+    }
   } catch (error) {
     respond(response, 400, { error: "Failed to decode audio", detail: error.message ?? String(error) });
     return;
   }
 
-  const formData = new FormData();
-  const blob = new Blob([audioBuffer], { type: mimeType });
+  let result;
+  try {
+    result = await provider(audioBuffer, payload);
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      respond(response, error.status, { error: error.message, status: error.status, detail: error.detail });
+      return;
+    }
+    console.error(`[stt-proxy] ${providerId} request failure`, error);
+    respond(response, 502, {
+      error: `Failed to contact the ${providerId} STT provider`,
+      detail: error?.message ?? String(error),
+    });
+    return;
+  }
+
+  const transcript = extractTranscript(result);
+  const chunks = pickChunks(result);
+
+  // Optional server-side intent classification
+  const intent = classify ? classifyIntent(transcript, candidates, languageCode, aliases) : null;
+
+  respond(response, 200, {
+    transcript,
+    chunks,
+    text: result.text ?? null,
+    words: Array.isArray(result.words) ? result.words : undefined,
+    segments: Array.isArray(result.segments) ? result.segments : undefined,
+    language: result.language ?? result.language_code ?? languageCode ?? null,
+    requestId: result.request_id ?? result.id ?? null,
+    provider: providerId,
+    intent,
+  });
+}
+
+// ----------------------
+// Streaming
+// ----------------------
+// Protocol: the client sends { type: "start", provider, languageCode, candidates,
+// aliases, classify }, then binary audio chunks, then { type: "stop" }. The proxy answers
+// with { type: "interim", transcript } whilst audio arrives, re-transcribing what
+// it has so far, and ends with { type: "final", transcript, intent } or
+// { type: "error", error }.
+
+function handleStream(connection) {
+  let session = null;
+  const chunks = [];
+  let size = 0;
+  let lastInterim = 0;
+  let lastInterimText = "";
+  let busy = false;
+  let stopped = false;
+
+  const audio = () => Buffer.concat(chunks);
+
+  const sendInterim = async () => {
+    if (busy || stopped || Date.now() - lastInterim < INTERIM_INTERVAL) {
+      return;
+    }
+    busy = true;
+    lastInterim = Date.now();
+    try {
+      const transcript = extractTranscript(await session.provider(audio(), session.payload));
+      if (!stopped && transcript && transcript !== lastInterimText) {
+        lastInterimText = transcript;
+        connection.send({ type: "interim", transcript });
+      }
+    } catch (error) {
+      // A partial recording may not decode yet; the final transcript will tell
+      console.warn(`[stt-proxy] ${session.providerId} interim failed`, error?.message ?? error);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const finish = async () => {
+    stopped = true;
+    let transcript;
+    try {
+      transcript = extractTranscript(await session.provider(audio(), session.payload));
+    } catch (error) {
+      console.error(`[stt-proxy] ${session.providerId} stream failure`, error);
+      connection.send({ type: "error", error: error?.message ?? String(error) });
+      connection.close();
+      return;
+    }
+    const intent = session.payload.classify
+      ? classifyIntent(
+          transcript,
+          session.payload.candidates ?? [],
+          session.payload.languageCode,
+          session.payload.aliases
+        )
+      : null;
+    connection.send({ type: "final", transcript, intent });
+    connection.close();
+  };
+
+  connection.onMessage = (data, binary) => {
+    if (binary) {
+      if (!session || stopped) {
+        return;
+      }
+      size += data.length;
+      if (size > MAX_STREAM_BYTES) {
+        connection.send({ type: "error", error: "Utterance too long" });
+        connection.close();
+        return;
+      }
+      chunks.push(data);
+      sendInterim();
+      return;
+    }
+
+    let message;
+    try {
+      message = JSON.parse(data.toString("utf8"));
+    } catch {
+      connection.send({ type: "error", error: "Invalid JSON message" });
+      return;
+    }
+    if (message.type === "start" && !session) {
+      const providerId = message.provider || DEFAULT_PROVIDER;
+      const provider = PROVIDERS[providerId];
+      if (!provider) {
+        connection.send({ type: "error", error: `Unknown STT provider: ${providerId}` });
+        connection.close();
+        return;
+      }
+      // Interim and final results of a mock stream share one scripted transcript
+      const payload = providerId === "mock" && typeof message.mockTranscript !== "string"
+        ? { ...message, mockTranscript: nextMockTranscript() }
+        : message;
+      session = { providerId, provider, payload };
+    } else if (message.type === "stop" && session && !stopped) {
+      finish();
+    }
+  };
+}
+
+// Accepts a WebSocket upgrade and exchanges JSON and binary messages over it.
+// Only what the streaming protocol needs is supported: no extensions or
+// subprotocols, and messages up to MAX_STREAM_BYTES.
+function acceptWebSocket(request, socket) {
+  const key = request.headers["sec-websocket-key"];
+  const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let closed = false;
+  const connection = {
+    onMessage: () => {},
+    send: (message) => writeFrame(0x1, Buffer.from(JSON.stringify(message), "utf8")),
+    close: () => {
+      if (!closed) {
+        writeFrame(0x8, Buffer.alloc(0));
+        closed = true;
+        socket.end();
+      }
+    },
+  };
+
+  const writeFrame = (opcode, payload) => {
+    if (closed || socket.destroyed) {
+      return;
+    }
+    let header;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    socket.write(Buffer.concat([header, payload]));
+  };
+
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentOpcode = 0;
+
+  socket.on("data", (data) => {
+    buffer = Buffer.concat([buffer, data]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_STREAM_BYTES) {
+        socket.destroy();
+        return;
+      }
+      const maskOffset = offset;
+      if (masked) {
+        offset += 4;
+      }
+      if (buffer.length < offset + length) {
+        return;
+      }
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        connection.close();
+        return;
+      }
+      if (opcode === 0x9) {
+        writeFrame(0xa, payload);
+        continue;
+      }
+      if (opcode === 0xa) {
+        continue;
+      }
+      if (opcode !== 0x0) {
+        fragmentOpcode = opcode;
+        fragments = [];
+      }
+      fragments.push(payload);
+      if (fin) {
+        connection.onMessage(Buffer.concat(fragments), fragmentOpcode === 0x2);
+        fragments = [];
+      }
+    }
+  });
+  socket.on("error", (error) => {
+    console.warn("[stt-proxy] stream socket error", error?.message ?? error);
+  });
+
+  return connection;
+}
+
+// ----------------------
+// STT Providers
+// ----------------------
+// Each provider turns audio into a transcription payload in the ElevenLabs shape
+// ({ text, words, ... }), or throws a ProviderError to pass on to the client.
+
+class ProviderError extends Error {
+  constructor(message, status, detail) {
+    super(message);
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+const audioFile = (audioBuffer, payload) => {
+  const mimeType = payload.mimeType || "audio/webm";
   const fileName = payload.fileName || `voice-${Date.now()}.${mimeType.split("/").pop() || "webm"}`;
+  return [new Blob([audioBuffer], { type: mimeType }), fileName];
+};
+
+async function transcribeWithElevenLabs(audioBuffer, payload) {
+  if (!ELEVENLABS_API_KEY) {
+    throw new ProviderError("ELEVENLABS_API_KEY is not configured", 500);
+  }
+  const { languageCode, modelId, diarize, numSpeakers, timestampsGranularity, tagAudioEvents } = payload;
 
+  const formData = new FormData();
   formData.append("model_id", modelId || "scribe_v1");
-  formData.append("file", blob, fileName);
+  formData.append("file", ...audioFile(audioBuffer, payload));
   if (languageCode) {
     formData.append("language_code", languageCode);
   }
@@ -172,170 +484,105 @@ async function handleTranscription(request, response) {
     formData.append("tag_audio_events", String(tagAudioEvents));
   }
 
-  try {
-    let result;
-    let ok = false;
-    let lastStatus = 0;
-    let lastBody = null;
-    for (const url of ENDPOINTS) {
-      const upstream = await fetch(url, {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "xi-api-key": ELEVENLABS_API_KEY,
-        },
-        body: formData,
-      });
-      lastStatus = upstream.status;
-      try {
-        result = await upstream.json();
-      } catch {
-        result = null;
-      }
-      lastBody = result;
-      if (upstream.ok) {
-        ok = true;
-        break;
-      }
-      if (upstream.status !== 404) {
-        break;
-      }
+  let lastStatus = 0;
+  let lastBody = null;
+  for (const url of ENDPOINTS) {
+    const upstream = await fetch(url, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "xi-api-key": ELEVENLABS_API_KEY,
+      },
+      body: formData,
+    });
+    lastStatus = upstream.status;
+    try {
+      lastBody = await upstream.json();
+    } catch {
+      lastBody = null;
     }
-
-    if (!ok) {
-      console.error("[stt-proxy] ElevenLabs error", lastStatus, lastBody);
-      respond(response, lastStatus || 502, {
-        error: "Upstream ElevenLabs request failed",
-        status: lastStatus,
-        detail: lastBody,
-      });
-      return;
+    if (upstream.ok) {
+      return lastBody ?? {};
+    }
+    if (upstream.status !== 404) {
+      break;
     }
-
-    const transcript = extractTranscript(result);
-    const chunks = pickChunks(result);
-
-    // Optional server-side intent classification
-    const intent = classify ? classifyIntent(transcript, candidates) : null;
-
-    respond(response, 200, {
-      transcript,
-      chunks,
-      text: result.text ?? null,
-      words: Array.isArray(result.words) ? result.words : undefined,
-      segments: Array.isArray(result.segments) ? result.segments : undefined,
-      language: result.language ?? result.language_code ?? languageCode ?? null,
-      requestId: result.request_id ?? result.id ?? null,
-      intent,
-    });
-  } catch (error) {
-    console.error("[stt-proxy] request failure", error);
-    respond(response, 502, {
-      error: "Failed to contact ElevenLabs",
-      detail: error?.message ?? String(error),
-    });
   }
-}
 
-// ----------------------
-// Intent Classification
-// ----------------------
-const COMMAND_SYNONYMS = {
-  open: [
-    "open",
-    "go to",
-    "goto",
-    "show",
-    "focus on",
-    "focus",
-    "move to",
-    "move toward",
-    "move over to",
-    "bring me to",
-    "take me to",
-  ],
-};
+  console.error("[stt-proxy] ElevenLabs error", lastStatus, lastBody);
+  throw new ProviderError("Upstream ElevenLabs request failed", lastStatus || 502, lastBody);
+}
 
-function classifyIntent(transcript, candidates) {
-  if (!transcript || typeof transcript !== "string") return null;
-  const normalized = transcript.toLowerCase();
-  const m = normalized.match(/(?:open|go to|goto|show|focus on|focus|move to|move toward|move over to|bring me to|take me to)\s+(.+)/);
-  let targetCandidate = m && m[1] ? m[1] : normalized;
-  targetCandidate = cleanCandidate(targetCandidate);
-  const target = resolveCandidate(targetCandidate, candidates || []);
-  if (target && target.score >= 0.45) {
-    return { type: "open", target: target.name, confidence: target.score, transcript, normalized };
+// whisper.cpp's server takes the audio as "file" and answers with { text }.
+// It needs audio it can decode, so start it with --convert for webm/ogg input.
+async function transcribeWithLocal(audioBuffer, payload) {
+  const formData = new FormData();
+  formData.append("file", ...audioFile(audioBuffer, payload));
+  formData.append("response_format", "json");
+  if (payload.languageCode) {
+    formData.append("language", payload.languageCode);
   }
-  return null;
-}
 
-function resolveCandidate(raw, candidates) {
-  if (!raw || !Array.isArray(candidates)) return null;
-  const cand = raw.toLowerCase();
-  let best = null;
-  for (const name of candidates) {
-    const score = similarity(name.toLowerCase(), cand);
-    if (!best || score > best.score) best = { name, score };
+  const upstream = await fetch(LOCAL_STT_URL, { method: "POST", body: formData });
+  let body = null;
+  try {
+    body = await upstream.json();
+  } catch {
+    body = null;
   }
-  return best;
+  if (!upstream.ok || !body) {
+    console.error("[stt-proxy] Local STT error", upstream.status, body);
+    throw new ProviderError("Local STT request failed", upstream.ok ? 502 : upstream.status, body);
+  }
+  return body;
 }
 
-const COURTESY_WORDS = new Set([
-  "please",
-  "now",
-  "thanks",
-  "thank",
-  "you",
-  "planet",
-  "the",
-  "a",
-  "to",
-  "me",
-  "about",
-  "tell",
-  "would",
-  "could",
-  "can",
-  "give"
-]);
-
-function cleanCandidate(raw) {
-  if (!raw || typeof raw !== "string") return "";
-  const stripped = raw
-    .replace(/[.?!,]/g, " ")
-    .split(/\s+/)
-    .filter((token) => token && !COURTESY_WORDS.has(token))
-    .join(" ")
-    .trim();
-  if (stripped) {
-    return stripped;
-  }
-  return raw.replace(/[.?!,]/g, " ").trim();
+// Returns the scripted transcripts in turn, whatever the audio, so the voice
+// pipeline can be exercised without a recogniser. A request may pass its own
+// `mockTranscript` instead.
+let mockIndex = 0;
+function nextMockTranscript() {
+  const text = MOCK_TRANSCRIPTS[mockIndex % MOCK_TRANSCRIPTS.length] ?? "";
+  mockIndex++;
+  return text;
 }
 
-// Narration via voice commands is intentionally unsupported; UI handles narration playback.
-
-function similarity(a, b) {
-  if (a === b) return 1;
-  if (a.includes(b) || b.includes(a)) return 0.85;
-  return levenshteinSimilarity(a, b);
+async function transcribeWithMock(_audioBuffer, payload) {
+  if (typeof payload.mockTranscript === "string") {
+    return { text: payload.mockTranscript };
+  }
+  return { text: nextMockTranscript() };
 }
 
-function levenshteinSimilarity(a, b) {
-  const distance = levenshtein(a, b);
-  const maxLen = Math.max(a.length, b.length) || 1;
-  return 1 - distance / maxLen;
-}
+const PROVIDERS = {
+  elevenlabs: transcribeWithElevenLabs,
+  local: transcribeWithLocal,
+  mock: transcribeWithMock,
+};
 
-function levenshtein(a, b) {
-  const matrix = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
-  for (let i = 0; i <= a.length; i++) matrix[i][0] = i;
-  for (let j = 0; j <= b.length; j++) matrix[0][j] = j;
-  for (let i = 1; i <= a.length; i++) {
-    for (let j = 1; j <= b.length; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(matrix[i - 1][j] + 1, matrix[i][j - 1] + 1, matrix[i - 1][j - 1] + cost);
-    }
+// ----------------------
+// Intent Classification
+// ----------------------
+// Uses the client's grammar, so the proxy and the browser classify alike; aliases
+// are names the user has taught the client, e.g. { "mark": "Mars" }.
+const QUESTION_BODIES = questionBodies(planets);
+
+function classifyIntent(transcript, candidates, languageCode, aliases) {
+  if (!transcript || typeof transcript !== "string") return null;
+  const bodies = Array.isArray(candidates) ? candidates.filter((name) => typeof name === "string") : [];
+  // Learned aliases map spoken phrases to body names, e.g. { "mark": "Mars" }
+  const learned =
+    aliases && typeof aliases === "object" && !Array.isArray(aliases)
+      ? Object.fromEntries(
+          Object.entries(aliases).filter(([, name]) => typeof name === "string")
+        )
+      : {};
+  const language = typeof languageCode === "string" && languageCode ? languageCode : "en";
+  try {
+    return new IntentParser(bodies, QUESTION_BODIES, grammarFor(language), learned).parse(transcript);
+  } catch (error) {
+    // The client classifies the transcript itself when no intent comes back
+    console.error("[stt-proxy] Intent classification failed", error);
+    return null;
   }
-  return matrix[a.length][b.length];
 }
@@ -1,3 +1,6 @@
 export const LAYERS = {
   POILabel: 2,
 };
+
+// One unit of simulation time is 8 hours (1s real-time at speed 1).
+export const SIMULATION_HOURS_PER_UNIT = 8;
@@ -0,0 +1,119 @@
+import { CustomGestureId, NormalizedLandmark } from './gesture-types';
+
+// A gesture the user has trained, with the landmark features recorded for it
+export interface CustomGestureData {
+  name: string;
+  samples: number[][];
+}
+
+// x and y of every landmark but the wrist, which is the origin
+export const FEATURE_LENGTH = 40;
+
+// Largest root-mean-square difference from a sample, in hand sizes, still taken as a match
+const MATCH_DISTANCE = 0.2;
+
+export const customGestureId = (name: string): CustomGestureId => `custom:${name}`;
+
+export const isCustomGestureData = (value: any): value is CustomGestureData =>
+  typeof value?.name === 'string' &&
+  value.name.length > 0 &&
+  Array.isArray(value.samples) &&
+  value.samples.length > 0 &&
+  value.samples.every(
+    (sample: unknown) =>
+      Array.isArray(sample) && sample.length === FEATURE_LENGTH && sample.every(Number.isFinite)
+  );
+
+/**
+ * Describe a hand's shape independently of where it is in the image and how far
+ * it is from the camera: landmarks relative to the wrist, in units of the distance
+ * from the wrist to the middle finger's knuckle
+ */
+export const landmarkFeatures = (landmarks: NormalizedLandmark[]): number[] | null => {
+  if (!landmarks || landmarks.length < 21) return null;
+
+  const wrist = landmarks[0];
+  const middleMCP = landmarks[9];
+  const scale = Math.sqrt((middleMCP.x - wrist.x) ** 2 + (middleMCP.y - wrist.y) ** 2);
+  if (scale < 1e-6) return null;
+
+  const features: number[] = [];
+  for (let i = 1; i < 21; i++) {
+    features.push((landmarks[i].x - wrist.x) / scale, (landmarks[i].y - wrist.y) / scale);
+  }
+  return features;
+};
+
+/**
+ * Root-mean-square difference between two feature vectors, also trying the first
+ * mirrored so that either hand makes the same gesture
+ */
+const featureDistance = (a: number[], b: number[]): number => {
+  let same = 0;
+  let mirrored = 0;
+  for (let i = 0; i < FEATURE_LENGTH; i++) {
+    const flip = i % 2 === 0 ? -1 : 1;
+    same += (a[i] - b[i]) ** 2;
+    mirrored += (a[i] * flip - b[i]) ** 2;
+  }
+  return Math.sqrt(Math.min(same, mirrored) / FEATURE_LENGTH);
+};
+
+/**
+ * Nearest-neighbour classifier over recorded samples of user-trained gestures
+ */
+export class CustomGestureClassifier {
+  private gestures: Map<string, number[][]> = new Map();
+
+  /**
+   * Add a gesture, replacing any recorded before under the same name
+   */
+  set(name: string, samples: number[][]): void {
+    this.gestures.set(name, samples.map((sample) => [...sample]));
+  }
+
+  remove(name: string): void {
+    this.gestures.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.gestures.has(name);
+  }
+
+  all(): CustomGestureData[] {
+    return Array.from(this.gestures, ([name, samples]) => ({
+      name,
+      samples: samples.map((sample) => [...sample])
+    }));
+  }
+
+  /**
+   * Replace every gesture, e.g. with those restored from settings
+   */
+  load(gestures: CustomGestureData[]): void {
+    this.gestures.clear();
+    gestures.forEach(({ name, samples }) => this.set(name, samples));
+  }
+
+  /**
+   * Name the trained gesture a hand is closest to, if it is close enough to any
+   */
+  classify(landmarks: NormalizedLandmark[]): string | null {
+    if (this.gestures.size === 0) return null;
+    const features = landmarkFeatures(landmarks);
+    if (!features) return null;
+
+    let best: string | null = null;
+    let bestDistance = MATCH_DISTANCE;
+    for (const [name, samples] of this.gestures) {
+      for (const sample of samples) {
+        const distance = featureDistance(features, sample);
+        if (distance < bestDistance) {
+          best = name;
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+}
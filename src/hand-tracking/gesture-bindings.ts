@@ -0,0 +1,80 @@
+import { FingerGesture, SwipeGesture } from './gesture-types';
+
+// What a held gesture does. Zooming, orbiting and pointing last while the gesture is held;
+// the rest happen once, then again after a cooldown if it is still held.
+export type GestureAction =
+  | 'none'
+  | 'zoom_in'
+  | 'zoom_out'
+  | 'orbit'
+  | 'point'
+  | 'next_focus'
+  | 'previous_focus'
+  | 'toggle_voice'
+  | 'toggle_narration'
+  | 'toggle_clock'
+  | 'next_tour_stop';
+
+// Actions that happen once rather than while the gesture is held.
+export type OneShotGestureAction = Exclude<GestureAction, 'none' | 'zoom_in' | 'zoom_out' | 'orbit' | 'point'>;
+
+// Actions by gesture name; names are strings so gestures added later can be bound.
+export type GestureBindings = Record<string, GestureAction>;
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  open_palm: 'zoom_out',
+  closed_fist: 'zoom_in',
+  one_finger: 'orbit',
+  two_fingers: 'toggle_voice',
+  three_fingers: 'next_tour_stop',
+  thumbs_up: 'none',
+  swipe_left: 'previous_focus',
+  swipe_right: 'next_focus',
+};
+
+// Actions offered in the settings panel, by label.
+export const GESTURE_ACTIONS: Record<string, GestureAction> = {
+  Nothing: 'none',
+  'Zoom In': 'zoom_in',
+  'Zoom Out': 'zoom_out',
+  Orbit: 'orbit',
+  'Point and Pick': 'point',
+  'Next Body': 'next_focus',
+  'Previous Body': 'previous_focus',
+  'Toggle Voice Listening': 'toggle_voice',
+  'Toggle Narration': 'toggle_narration',
+  'Pause / Play Clock': 'toggle_clock',
+  'Next Tour Stop': 'next_tour_stop',
+};
+
+export const GESTURE_LABELS: Record<Exclude<FingerGesture, 'unknown'> | SwipeGesture, string> = {
+  open_palm: '🖐️ Open Palm',
+  closed_fist: '✊ Closed Fist',
+  one_finger: '☝️ One Finger',
+  two_fingers: '✌️ Two Fingers',
+  three_fingers: '🤟 Three Fingers',
+  thumbs_up: '👍 Thumbs Up',
+  swipe_left: '👈 Swipe Left',
+  swipe_right: '👉 Swipe Right',
+};
+
+/**
+ * Name of a gesture for display, e.g. "👍 Thumbs Up"; trained gestures go by their given names.
+ * @param gesture - Gesture name, as bound.
+ */
+export const gestureLabel = (gesture: string): string =>
+  GESTURE_LABELS[gesture as keyof typeof GESTURE_LABELS] ??
+  (gesture.startsWith('custom:') ? `✨ ${gesture.slice('custom:'.length)}` : gesture);
+
+export const isOneShotGestureAction = (action: GestureAction): action is OneShotGestureAction =>
+  !['none', 'zoom_in', 'zoom_out', 'orbit', 'point'].includes(action);
+
+export const isGestureAction = (value: unknown): value is GestureAction =>
+  Object.values(GESTURE_ACTIONS).includes(value as GestureAction);
+
+/**
+ * Label of an action, e.g. "Next Body".
+ * @param action - Action to describe.
+ */
+export const gestureActionLabel = (action: GestureAction): string =>
+  Object.keys(GESTURE_ACTIONS).find((label) => GESTURE_ACTIONS[label] === action) ?? action;
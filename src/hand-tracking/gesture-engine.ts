@@ -6,10 +6,19 @@ import {
   HandFrame, 
   NormalizedLandmark,
   FingerGestureState,
-  FingerGesture
+  HandPointer,
+  RecognizedGesture
 } from './gesture-types';
-import { GestureFilter } from './filters/one-euro';
+import { GestureFilter, OneEuroFilterVector } from './filters/one-euro';
 import { GestureRecognizer } from './gesture-recognizer';
+import { CustomGestureClassifier, CustomGestureData, customGestureId, landmarkFeatures } from './custom-gestures';
+import {
+  DEFAULT_GESTURE_BINDINGS,
+  GestureAction,
+  GestureBindings,
+  OneShotGestureAction,
+  isOneShotGestureAction
+} from './gesture-bindings';
 import { eventBus } from '../voice/eventBus';
 
 /**
@@ -69,6 +78,48 @@ class GestureStateMachine {
   }
 }
 
+type SwipeDirection = 'left' | 'right';
+
+/**
+ * Spots quick sideways flicks of a tracked point among slower movement
+ */
+class SwipeDetector {
+  private samples: { t: number; x: number; y: number }[] = [];
+  private lastSwipeAt: number = -Infinity;
+
+  // Swipe thresholds; one-finger orbiting moves well under MIN_SPEED
+  private readonly WINDOW_MS = 250;
+  private readonly MIN_DISTANCE = 0.18; // fraction of the image width
+  private readonly MIN_SPEED = 1.2; // image widths per second
+  private readonly DIRECTION_RATIO = 2; // sideways travel per unit of vertical travel
+  private readonly COOLDOWN_MS = 700;
+
+  update(x: number, y: number, tMs: number): SwipeDirection | null {
+    this.samples.push({ t: tMs, x, y });
+    while (tMs - this.samples[0].t > this.WINDOW_MS) {
+      this.samples.shift();
+    }
+    if (tMs - this.lastSwipeAt < this.COOLDOWN_MS) return null;
+
+    const first = this.samples[0];
+    const dt = (tMs - first.t) / 1000;
+    const dx = x - first.x;
+    const dy = y - first.y;
+    if (dt <= 0) return null;
+    if (Math.abs(dx) < this.MIN_DISTANCE || Math.abs(dx) / dt < this.MIN_SPEED) return null;
+    if (Math.abs(dx) < Math.abs(dy) * this.DIRECTION_RATIO) return null;
+
+    this.lastSwipeAt = tMs;
+    this.samples = [];
+    // Directions are the user's: the camera image is not mirrored, so their right is lower x
+    return dx < 0 ? 'right' : 'left';
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+}
+
 /**
  * Core gesture recognition engine with proper normalization and filtering
  */
@@ -81,10 +132,48 @@ export class GestureEngine implements GestureStateReader {
   // Track fingertip lateral motion for one-finger slide control
   private lastIndexTipX: number | null = null;
   private lastTimestampMs: number | null = null;
-  // Debounce for gesture-based voice toggling
-  private lastVoiceToggleAt: number = 0;
-  private readonly VOICE_TOGGLE_COOLDOWN_MS = 1200;
+  // What each gesture does, and when each one-off action last fired
+  private bindings: GestureBindings = { ...DEFAULT_GESTURE_BINDINGS };
+  private lastActionAt: Partial<Record<OneShotGestureAction, number>> = {};
+  private heldAction: GestureAction = 'none';
+  // Swipes follow the fingertip while pointing, and the palm otherwise
+  private swipeDetector: SwipeDetector;
+  private swipeTracksFingertip: boolean = false;
+  private readonly ACTION_COOLDOWN_MS = 1200;
+  private readonly TOUR_ADVANCE_COOLDOWN_MS = 1500;
+  // While a dialog captures gestures, held gestures are reported instead of acted on
+  private captured: boolean = false;
+  private heldGesture: RecognizedGesture | null = null;
+  private heldSince: number = 0;
+  private heldReported: boolean = false;
+  private readonly HOLD_DURATION_MS = 400;
   
+  // Two-hand pinch: spread and tilt of the line between the palms, with each hand
+  // kept on its side from frame to frame
+  private twoHandFilter: OneEuroFilterVector;
+  private twoHandPrevious: { t: number; spread: number; angle: number } | null = null;
+  private twoHandWrists: { left: NormalizedLandmark; right: NormalizedLandmark } | null = null;
+  private readonly TWO_HAND_ZOOM_GAIN = 3.0;
+  private readonly TWO_HAND_ORBIT_GAIN = 0.5;
+  private readonly TWO_HAND_MAX_TURN = Math.PI / 2; // per frame; more means the hands were swapped
+
+  // Index-fingertip cursor while a gesture bound to pointing is held
+  private pointer: HandPointer | null = null;
+  private pointerFilter: OneEuroFilterVector;
+  private pointerSeenAt: number = 0;
+  private readonly POINTER_MARGIN = 0.15; // of the image on each side, so screen edges are within reach
+  private readonly POINTER_GRACE_MS = 300; // keeps the cursor through a pinch, which can change the gesture
+  private readonly PINCH_CONFIRM_THRESHOLD = 0.7;
+
+  // Gestures trained by the user, and samples of one being recorded from the live hand
+  private customGestures: CustomGestureClassifier;
+  private recording: { name: string; samples: number[][]; startedAt: number | null; nextAt: number } | null = null;
+  private readonly RECORD_SAMPLES = 8;
+  private readonly RECORD_MIN_SAMPLES = 3;
+  private readonly RECORD_LEAD_IN_MS = 1000; // time to get the hand into shape
+  private readonly RECORD_INTERVAL_MS = 250;
+  private readonly RECORD_TIMEOUT_MS = 10000;
+
   // Finger gesture recognition (now the only system)
   private gestureRecognizer: GestureRecognizer;
   private lastFingerGesture: FingerGestureState;
@@ -99,6 +188,10 @@ export class GestureEngine implements GestureStateReader {
   constructor() {
     this.filter = new GestureFilter();
     this.stateMachine = new GestureStateMachine();
+    this.swipeDetector = new SwipeDetector();
+    this.twoHandFilter = new OneEuroFilterVector(2, 1.0, 0.01);
+    // Screen fractions move far less per second than radians, hence the high beta
+    this.pointerFilter = new OneEuroFilterVector(2, 1.0, 4.0);
     this.calibration = {
       neutralYaw: 0,
       neutralPitch: 0,
@@ -106,7 +199,8 @@ export class GestureEngine implements GestureStateReader {
       handBaseline: 0.1 // default baseline
     };
     
-    this.gestureRecognizer = new GestureRecognizer();
+    this.customGestures = new CustomGestureClassifier();
+    this.gestureRecognizer = new GestureRecognizer(this.customGestures);
     this.lastFingerGesture = {
       gesture: 'unknown',
       fingerCount: 0,
@@ -115,14 +209,30 @@ export class GestureEngine implements GestureStateReader {
     };
     
     this.lastSnapshot = this.createIdleSnapshot();
+
+    eventBus.on('gestureCapture', ({ active }) => {
+      this.captured = active;
+      this.heldGesture = null;
+      this.heldReported = false;
+    });
   }
 
   /**
    * Process new hand landmarks and update gesture state
    */
-  ingest(landmarks: any[][], tMs: number): void {
+  ingest(landmarks: any[][], tMs: number, handedness: any[][] = []): void {
+    if (this.recording) {
+      // The hand is showing a gesture to learn, not one to act on
+      this.recordSample(landmarks, tMs);
+      this.lastSnapshot = { ...this.createIdleSnapshot(tMs), hands: landmarks?.length ?? 0 };
+      return;
+    }
+
     if (!landmarks || landmarks.length === 0) {
       this.lastSnapshot = this.createIdleSnapshot(tMs);
+      this.swipeDetector.reset();
+      this.resetTwoHands();
+      this.clearPointer();
       this.lastFingerGesture = {
         gesture: 'unknown',
         fingerCount: 0,
@@ -134,14 +244,188 @@ export class GestureEngine implements GestureStateReader {
 
     // Process finger gestures (now the only system)
     this.lastFingerGesture = this.gestureRecognizer.recognizeFingerGestures(landmarks);
+    if (landmarks.length >= 2 && !this.captured && this.processTwoHands(landmarks, handedness, tMs)) {
+      return;
+    }
+    this.resetTwoHands();
     this.processFingerGestures(landmarks, tMs);
   }
 
+  /**
+   * Start recording samples of a gesture from the live hand, replacing any
+   * recorded before under the same name; progress is reported on the event bus
+   */
+  recordGesture(name: string): void {
+    this.recording = { name, samples: [], startedAt: null, nextAt: 0 };
+    this.swipeDetector.reset();
+    this.resetTwoHands();
+    this.clearPointer();
+    eventBus.emit('gestureRecording', { name, recorded: 0, total: this.RECORD_SAMPLES, done: false, saved: false });
+  }
+
+  private recordSample(landmarks: any[][], tMs: number): void {
+    const recording = this.recording!;
+    if (recording.startedAt === null) {
+      recording.startedAt = tMs;
+      recording.nextAt = tMs + this.RECORD_LEAD_IN_MS;
+    }
+
+    const features = landmarks?.[0] ? landmarkFeatures(landmarks[0]) : null;
+    const sampled = !!features && tMs >= recording.nextAt;
+    if (sampled) {
+      recording.samples.push(features);
+      recording.nextAt = tMs + this.RECORD_INTERVAL_MS;
+    }
+
+    const full = recording.samples.length >= this.RECORD_SAMPLES;
+    const timedOut = tMs - recording.startedAt > this.RECORD_TIMEOUT_MS;
+    const saved = recording.samples.length >= this.RECORD_MIN_SAMPLES;
+    if (full || timedOut) {
+      this.recording = null;
+      if (saved) {
+        this.customGestures.set(recording.name, recording.samples);
+        this.bindings[customGestureId(recording.name)] ??= 'none';
+      }
+    }
+    if (sampled || !this.recording) {
+      eventBus.emit('gestureRecording', {
+        name: recording.name,
+        recorded: recording.samples.length,
+        total: this.RECORD_SAMPLES,
+        done: !this.recording,
+        saved: !this.recording && saved
+      });
+    }
+  }
+
+  /**
+   * Get the gestures the user has trained
+   */
+  getCustomGestures(): CustomGestureData[] {
+    return this.customGestures.all();
+  }
+
+  /**
+   * Replace the trained gestures, e.g. with those restored from settings
+   */
+  setCustomGestures(gestures: CustomGestureData[]): void {
+    this.customGestures.load(gestures);
+  }
+
+  /**
+   * Forget a trained gesture and what it was bound to
+   */
+  forgetGesture(name: string): void {
+    this.customGestures.remove(name);
+    delete this.bindings[customGestureId(name)];
+  }
+
+  /**
+   * Zoom by the spread between two hands and orbit by turning them
+   * @returns false if the hands could not be told apart
+   */
+  private processTwoHands(landmarks: any[][], handedness: any[][], tMs: number): boolean {
+    const hands = this.pairHands(landmarks, handedness);
+    if (!hands) return false;
+
+    // Palm centres, at the middle finger's knuckle
+    const left = hands.left[9];
+    const right = hands.right[9];
+    const spread = Math.sqrt((right.x - left.x) ** 2 + (right.y - left.y) ** 2);
+    let angle = Math.atan2(right.y - left.y, right.x - left.x);
+
+    const previous = this.twoHandPrevious;
+    if (previous) {
+      // Follow the angle past ±π rather than wrapping
+      angle = previous.angle + Math.atan2(Math.sin(angle - previous.angle), Math.cos(angle - previous.angle));
+      if (Math.abs(angle - previous.angle) > this.TWO_HAND_MAX_TURN) {
+        this.resetTwoHands();
+        return this.processTwoHands(landmarks, handedness, tMs);
+      }
+    }
+    const [filteredSpread, filteredAngle] = this.twoHandFilter.filter([spread, angle], tMs / 1000);
+
+    let pinchDelta = 0;
+    let yaw = 0;
+    if (previous && filteredSpread > 0 && previous.spread > 0) {
+      const dt = Math.max(0.001, (tMs - previous.t) / 1000);
+      // Relative change, so hands near the camera zoom no faster than hands far from it
+      pinchDelta = (Math.log(filteredSpread / previous.spread) / dt) * this.TWO_HAND_ZOOM_GAIN;
+      yaw = ((filteredAngle - previous.angle) / dt) * this.TWO_HAND_ORBIT_GAIN;
+      yaw = Math.max(-Math.PI, Math.min(Math.PI, yaw));
+    }
+    this.twoHandPrevious = { t: tMs, spread: filteredSpread, angle: filteredAngle };
+
+    // Single-hand tracking starts afresh when a hand is lowered
+    this.swipeDetector.reset();
+    this.clearPointer();
+    this.heldAction = 'none';
+    this.lastIndexTipX = null;
+    this.lastTimestampMs = tMs;
+
+    this.lastSnapshot = {
+      t: tMs,
+      mode: 'TwoHand',
+      pinch: Math.min(1, filteredSpread),
+      pinchDelta,
+      yaw,
+      pitch: 0,
+      roll: Math.atan2(Math.sin(filteredAngle), Math.cos(filteredAngle)),
+      hands: 2,
+      quality: this.lastFingerGesture.confidence
+    };
+    return true;
+  }
+
+  /**
+   * Sort two hands into left and right by MediaPipe's handedness, falling back on
+   * where each hand was last frame when both are given the same label
+   */
+  private pairHands(landmarks: any[][], handedness: any[][]): { left: NormalizedLandmark[]; right: NormalizedLandmark[] } | null {
+    const [first, second] = landmarks;
+    if (!first || !second || first.length < 21 || second.length < 21) return null;
+
+    const firstLabel = handedness[0]?.[0]?.categoryName;
+    const secondLabel = handedness[1]?.[0]?.categoryName;
+    let firstIsLeft: boolean;
+    if (firstLabel !== secondLabel && (firstLabel === 'Left' || firstLabel === 'Right')) {
+      firstIsLeft = firstLabel === 'Left';
+    } else if (this.twoHandWrists) {
+      const { left, right } = this.twoHandWrists;
+      const distance = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+      firstIsLeft = distance(first[0], left) + distance(second[0], right) <= distance(first[0], right) + distance(second[0], left);
+    } else {
+      // The camera image is not mirrored, so the left hand shows on the right
+      firstIsLeft = first[0].x > second[0].x;
+    }
+
+    const left = firstIsLeft ? first : second;
+    const right = firstIsLeft ? second : first;
+    this.twoHandWrists = { left: left[0], right: right[0] };
+    return { left, right };
+  }
+
+  private resetTwoHands(): void {
+    this.twoHandPrevious = null;
+    this.twoHandWrists = null;
+    this.twoHandFilter.reset();
+  }
+
   /**
    * Process finger-based gestures
    */
   private processFingerGestures(landmarks: any[][], tMs: number): void {
     const fingerGesture = this.lastFingerGesture;
+
+    if (this.captured) {
+      this.reportHeldGesture(fingerGesture, tMs);
+      this.swipeDetector.reset();
+      this.clearPointer();
+      this.lastIndexTipX = null;
+      this.lastTimestampMs = tMs;
+      this.lastSnapshot = { ...this.createIdleSnapshot(tMs), hands: landmarks.length, quality: fingerGesture.confidence };
+      return;
+    }
     
     // Map finger gestures to modes and values
     let mode: GestureMode = 'Idle';
@@ -150,60 +434,76 @@ export class GestureEngine implements GestureStateReader {
     let pitch = 0;
     
     // Lower confidence threshold for more responsive gestures
-    if (fingerGesture.confidence > 0.5) {
-      switch (fingerGesture.gesture) {
-        case 'open_palm':
-          mode = 'Zoom';
-          pinchDelta = -0.8; // Zoom out
-          break;
-        case 'closed_fist':
-          mode = 'Zoom';
-          pinchDelta = 0.8; // Zoom in
-          break;
-        case 'one_finger': {
-          // Slide-based rotation: use index fingertip horizontal velocity
-          mode = 'Orbit';
-          const primary = landmarks[0];
-          const indexTip = primary && primary[8] ? primary[8] : null;
-          if (indexTip) {
-            const currentX = indexTip.x; // 0..1 image coords (right is larger)
-            if (this.lastIndexTipX !== null && this.lastTimestampMs !== null) {
-              const dt = Math.max(0.001, (tMs - this.lastTimestampMs) / 1000);
-              const vx = (currentX - this.lastIndexTipX) / dt; // units per second
-              // Gain to convert fingertip velocity to yaw rate (rad/s)
-              const gain = 2.0;
-              yaw = vx * gain; // right swipe -> positive yaw (rotate right)
-              // Limit extreme spikes
-              const MAX_YAW_RATE = Math.PI; // 180 deg/s cap
-              yaw = Math.max(-MAX_YAW_RATE, Math.min(MAX_YAW_RATE, yaw));
-            }
-            this.lastIndexTipX = currentX;
-            this.lastTimestampMs = tMs;
-          }
-          break;
-        }
-        case 'two_fingers': {
-          // Peace sign toggles voice listen on/off with cooldown
-          if (tMs - this.lastVoiceToggleAt > this.VOICE_TOGGLE_COOLDOWN_MS) {
-            this.lastVoiceToggleAt = tMs;
-            try {
-              eventBus.emit('voiceListenToggle', {} as any);
-            } catch {}
+    const action: GestureAction = fingerGesture.confidence > 0.5
+      ? this.bindings[fingerGesture.gesture] ?? 'none'
+      : 'none';
+    switch (action) {
+      case 'zoom_out':
+        mode = 'Zoom';
+        pinchDelta = -0.8;
+        break;
+      case 'zoom_in':
+        mode = 'Zoom';
+        pinchDelta = 0.8;
+        break;
+      case 'orbit': {
+        // Slide-based rotation: use index fingertip horizontal velocity
+        mode = 'Orbit';
+        const primary = landmarks[0];
+        const indexTip = primary && primary[8] ? primary[8] : null;
+        if (indexTip) {
+          const currentX = indexTip.x; // 0..1 image coords (right is larger)
+          if (this.lastIndexTipX !== null && this.lastTimestampMs !== null) {
+            const dt = Math.max(0.001, (tMs - this.lastTimestampMs) / 1000);
+            const vx = (currentX - this.lastIndexTipX) / dt; // units per second
+            // Gain to convert fingertip velocity to yaw rate (rad/s)
+            const gain = 2.0;
+            yaw = vx * gain; // right swipe -> positive yaw (rotate right)
+            // Limit extreme spikes
+            const MAX_YAW_RATE = Math.PI; // 180 deg/s cap
+            yaw = Math.max(-MAX_YAW_RATE, Math.min(MAX_YAW_RATE, yaw));
           }
-          // Do not rotate camera on this gesture
-          mode = 'Idle';
-          yaw = 0;
-          break;
+          this.lastIndexTipX = currentX;
+          this.lastTimestampMs = tMs;
         }
+        break;
       }
+      case 'point':
+      case 'none':
+        break;
+      default:
+        // One-off actions leave the camera alone
+        if (action !== this.heldAction) {
+          this.triggerAction(action, tMs);
+        }
+        break;
     }
+    this.heldAction = action;
 
-    // Reset fingertip tracker when not in one-finger mode to avoid stale deltas
-    if (fingerGesture.gesture !== 'one_finger') {
+    // Reset fingertip tracker when not orbiting to avoid stale deltas
+    if (action !== 'orbit') {
       this.lastIndexTipX = null;
       this.lastTimestampMs = tMs;
     }
 
+    this.updatePointer(landmarks[0], action === 'point', tMs);
+
+    // A swipe replaces whatever the hand shape was doing on that frame; moving the
+    // pointer is not a swipe
+    const swipe = this.pointer ? null : this.detectSwipe(landmarks[0], fingerGesture, tMs);
+    if (this.pointer) {
+      this.swipeDetector.reset();
+    }
+    if (swipe) {
+      const swipeAction = this.bindings[`swipe_${swipe}`] ?? 'none';
+      if (isOneShotGestureAction(swipeAction)) {
+        this.triggerAction(swipeAction, tMs, 0); // the detector keeps its own cooldown
+        mode = 'Idle';
+        pinchDelta = 0;
+        yaw = 0;
+      }
+    }
+
     this.lastSnapshot = {
       t: tMs,
       mode,
@@ -217,6 +517,102 @@ export class GestureEngine implements GestureStateReader {
     };
   }
 
+  /**
+   * Move the cursor with the index fingertip, and note whether it pinches the thumb
+   */
+  private updatePointer(hand: NormalizedLandmark[] | undefined, pointing: boolean, tMs: number): void {
+    if (!hand || hand.length < 21) {
+      this.clearPointer();
+      return;
+    }
+    if (pointing) {
+      const tip = hand[8];
+      const span = 1 - 2 * this.POINTER_MARGIN;
+      const clamp = (value: number) => Math.max(0, Math.min(1, value));
+      // The camera image is not mirrored, so moving the hand right lowers x
+      const x = clamp((1 - tip.x - this.POINTER_MARGIN) / span);
+      const y = clamp((tip.y - this.POINTER_MARGIN) / span);
+      const [filteredX, filteredY] = this.pointerFilter.filter([x, y], tMs / 1000);
+      this.pointerSeenAt = tMs;
+      this.pointer = { x: filteredX, y: filteredY, pinching: this.isPinching(hand) };
+    } else if (this.pointer && tMs - this.pointerSeenAt <= this.POINTER_GRACE_MS) {
+      this.pointer = { ...this.pointer, pinching: this.isPinching(hand) };
+    } else {
+      this.clearPointer();
+    }
+  }
+
+  private isPinching(hand: NormalizedLandmark[]): boolean {
+    const frame = this.extractHandFrame(hand);
+    if (!frame) return false;
+    return this.calculateNormalizedPinch(frame, this.calculateHandBaseline(frame)) > this.PINCH_CONFIRM_THRESHOLD;
+  }
+
+  private clearPointer(): void {
+    if (this.pointer) {
+      this.pointer = null;
+      this.pointerFilter.reset();
+    }
+  }
+
+  /**
+   * Follow the fingertip or palm for a quick sideways flick
+   */
+  private detectSwipe(hand: NormalizedLandmark[] | undefined, fingerGesture: FingerGestureState, tMs: number): SwipeDirection | null {
+    if (!hand || hand.length < 21) return null;
+    const tracksFingertip = fingerGesture.gesture === 'one_finger';
+    if (tracksFingertip !== this.swipeTracksFingertip) {
+      // Fingertip and palm are apart; don't read the jump between them as motion
+      this.swipeTracksFingertip = tracksFingertip;
+      this.swipeDetector.reset();
+    }
+    const point = tracksFingertip ? hand[8] : hand[9];
+    return this.swipeDetector.update(point.x, point.y, tMs);
+  }
+
+  /**
+   * Fire a one-off action when its gesture is made; the cooldown keeps a gesture
+   * flickering in and out of recognition from firing it again
+   */
+  private triggerAction(
+    action: OneShotGestureAction,
+    tMs: number,
+    cooldown: number = action === 'next_tour_stop' ? this.TOUR_ADVANCE_COOLDOWN_MS : this.ACTION_COOLDOWN_MS
+  ): void {
+    if (tMs - (this.lastActionAt[action] ?? -Infinity) <= cooldown) return;
+    this.lastActionAt[action] = tMs;
+
+    switch (action) {
+      case 'toggle_voice':
+        eventBus.emit('voiceListenToggle', {});
+        break;
+      case 'next_tour_stop':
+        eventBus.emit('tourCommand', { action: 'next' });
+        break;
+      default:
+        eventBus.emit('gestureAction', { action });
+        break;
+    }
+  }
+
+  /**
+   * Report a gesture once it has been held steadily, for dialogs capturing gestures
+   */
+  private reportHeldGesture(fingerGesture: FingerGestureState, tMs: number): void {
+    const gesture = fingerGesture.confidence > this.CONFIDENCE_THRESHOLD && fingerGesture.gesture !== 'unknown'
+      ? fingerGesture.gesture
+      : null;
+    if (gesture !== this.heldGesture) {
+      this.heldGesture = gesture;
+      this.heldSince = tMs;
+      this.heldReported = false;
+      return;
+    }
+    if (gesture && !this.heldReported && tMs - this.heldSince >= this.HOLD_DURATION_MS) {
+      this.heldReported = true;
+      eventBus.emit('fingerGestureHeld', { gesture });
+    }
+  }
 
   /**
    * Read the latest gesture snapshot
@@ -267,6 +663,34 @@ export class GestureEngine implements GestureStateReader {
     this.calibration = { ...calibration };
   }
 
+  /**
+   * Get what each gesture does
+   */
+  getBindings(): GestureBindings {
+    return { ...this.bindings };
+  }
+
+  /**
+   * Replace what every gesture does; gestures left out do nothing
+   */
+  setBindings(bindings: GestureBindings): void {
+    this.bindings = { ...bindings };
+  }
+
+  /**
+   * Change what one gesture does
+   */
+  setBinding(gesture: string, action: GestureAction): void {
+    this.bindings[gesture] = action;
+  }
+
+  /**
+   * Get where a pointing finger aims, or null when no gesture is pointing
+   */
+  getPointer(): HandPointer | null {
+    return this.pointer;
+  }
+
   /**
    * Get last finger gesture state
    */
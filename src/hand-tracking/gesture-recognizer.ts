@@ -1,4 +1,5 @@
-import { NormalizedLandmark, GestureState, FingerGestureState, FingerGesture } from './gesture-types';
+import { NormalizedLandmark, GestureState, FingerGestureState, FingerGesture, RecognizedGesture } from './gesture-types';
+import { CustomGestureClassifier, customGestureId } from './custom-gestures';
 
 export class GestureRecognizer {
   private previousGesture: GestureState | null = null;
@@ -16,9 +17,14 @@ export class GestureRecognizer {
   private handScale: number | null = null;
   
   // Finger gesture detection
-  private gestureHistory: FingerGesture[] = [];
+  private gestureHistory: RecognizedGesture[] = [];
   private gestureHistorySize = 8;
-  private lastStableGesture: FingerGesture = 'unknown';
+  private lastStableGesture: RecognizedGesture = 'unknown';
+
+  /**
+   * @param customGestures - Gestures trained by the user, tried before the built-in ones
+   */
+  constructor(private customGestures: CustomGestureClassifier = new CustomGestureClassifier()) {}
 
   recognizeGestures(landmarks: any[][]): GestureState {
     if (landmarks.length === 0) {
@@ -203,7 +209,8 @@ export class GestureRecognizer {
 
     const primaryHand = landmarks[0];
     const fingerCount = this.countExtendedFingers(primaryHand);
-    const gesture = this.classifyGesture(fingerCount, primaryHand);
+    const custom = this.customGestures.classify(primaryHand);
+    const gesture = custom ? customGestureId(custom) : this.classifyGesture(fingerCount, primaryHand);
     
     // Add to history for stability
     this.gestureHistory.push(gesture);
@@ -215,10 +222,10 @@ export class GestureRecognizer {
     const gestureFreq = this.gestureHistory.reduce((acc, g) => {
       acc[g] = (acc[g] || 0) + 1;
       return acc;
-    }, {} as Record<FingerGesture, number>);
+    }, {} as Record<RecognizedGesture, number>);
     
     const stableGesture = Object.entries(gestureFreq)
-      .sort(([,a], [,b]) => b - a)[0]?.[0] as FingerGesture || 'unknown';
+      .sort(([,a], [,b]) => b - a)[0]?.[0] as RecognizedGesture || 'unknown';
     
     // Only update if gesture is stable (appears in >60% of recent history)
     const confidence = (gestureFreq[stableGesture] || 0) / this.gestureHistory.length;
@@ -326,9 +333,11 @@ export class GestureRecognizer {
       case 0:
         return 'closed_fist';
       case 1:
-        return 'one_finger';
+        return this.isThumbsUp(landmarks) ? 'thumbs_up' : 'one_finger';
       case 2:
         return 'two_fingers';
+      case 3:
+        return 'three_fingers';
       case 5:
         return 'open_palm';
       default:
@@ -336,6 +345,22 @@ export class GestureRecognizer {
     }
   }
 
+  /**
+   * Thumb raised above the curled fingers, rather than a pointing index finger
+   */
+  private isThumbsUp(landmarks: NormalizedLandmark[]): boolean {
+    const thumbTip = landmarks[4];
+    const indexMCP = landmarks[5];
+    const wrist = landmarks[0];
+    if (!thumbTip || !indexMCP || !wrist) return false;
+
+    const handSize = Math.sqrt((indexMCP.x - wrist.x) ** 2 + (indexMCP.y - wrist.y) ** 2);
+    const thumbRaised = indexMCP.y - thumbTip.y > handSize * 0.5;
+    // Every other fingertip sits below the thumb tip
+    const thumbHighest = [8, 12, 16, 20].every((tip) => landmarks[tip] && landmarks[tip].y > thumbTip.y);
+    return thumbRaised && thumbHighest;
+  }
+
   // Debug method to get detailed gesture info
   getGestureDebugInfo(landmarks: any[][]): any {
     if (landmarks.length === 0) return null;
@@ -4,7 +4,7 @@ export interface HandData {
   handedness: any[][];
 }
 
-export type GestureMode = 'Idle' | 'Zoom' | 'Orbit';
+export type GestureMode = 'Idle' | 'Zoom' | 'Orbit' | 'TwoHand';
 
 export interface GestureSnapshot {
   t: number;            // timestamp in ms
@@ -18,10 +18,25 @@ export interface GestureSnapshot {
   quality: number;      // 0..1 confidence
 }
 
-export type FingerGesture = 'open_palm' | 'closed_fist' | 'one_finger' | 'two_fingers' | 'unknown';
+export type FingerGesture = 'open_palm' | 'closed_fist' | 'one_finger' | 'two_fingers' | 'three_fingers' | 'thumbs_up' | 'unknown';
+
+// Gestures users have trained, by the name they gave them
+export type CustomGestureId = `custom:${string}`;
+
+export type RecognizedGesture = FingerGesture | CustomGestureId;
+
+// Quick sideways flicks of the hand, seen in its motion rather than its shape
+export type SwipeGesture = 'swipe_left' | 'swipe_right';
+
+// Where a pointing index finger aims, as fractions of the screen from the top left
+export interface HandPointer {
+  x: number;
+  y: number;
+  pinching: boolean; // thumb and index finger touching, to confirm a pick
+}
 
 export interface FingerGestureState {
-  gesture: FingerGesture;
+  gesture: RecognizedGesture;
   fingerCount: number;
   confidence: number;
   isHandVisible: boolean;
@@ -45,6 +45,11 @@ export class HandGestureControlsV2 {
       case 'Orbit':
         this.applyRotation(gesture, dt);
         break;
+      case 'TwoHand':
+        // Spreading the hands zooms while turning them orbits, like a touch-screen pinch
+        this.applyZoom(gesture, dt);
+        this.applyRotation(gesture, dt);
+        break;
       case 'Idle':
       default:
         // No camera movement in idle mode
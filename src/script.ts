@@ -7,15 +7,38 @@ import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPa
 import { createEnvironmentMap } from "./setup/environment-map";
 import { createLights } from "./setup/lights";
 import { createSolarSystem } from "./setup/solar-system";
-import { createGUI, options } from "./setup/gui";
+import {
+  createGUI,
+  options,
+  setShowLabels,
+  setShowMoons,
+  setShowPaths,
+} from "./setup/gui";
+import { SimulationClock } from "./setup/simulation-clock";
+import { Timeline } from "./setup/timeline";
+import { CameraTransition } from "./setup/camera-transition";
+import { BodyPicker } from "./setup/picker";
+import { HandCursor } from "./setup/hand-cursor";
+import { DeepLink, ViewState } from "./setup/deep-link";
+import { Settings, SettingsStore, SETTINGS_VERSION, pickPersistedOptions } from "./setup/settings";
+import { CameraAngle, TourEngine } from "./setup/tour";
+import { TourPanel } from "./setup/tour-panel";
 import { LAYERS } from "./constants";
-import { eventBus } from "./voice/eventBus";
+import { eventBus, VoiceIntentEvent } from "./voice/eventBus";
 import { VoiceNavigationController } from "./voice/navigation";
+import { createSttProviders } from "./voice/sttProviders";
+import { DEFAULT_WAKE_PHRASE, WakeWordListener } from "./voice/wakeWord";
 import { WelcomeNarrator } from "./voice/welcomeNarrator";
 import { PlanetNarrator } from "./voice/planetNarrator";
+import { AnswerUI } from "./voice/answerUi";
+import { SpeechSynth } from "./voice/speech";
+import { answerQuery } from "./voice/planetFacts";
 import { NarrationUI } from "./voice/narrationUi";
+import { CaptionUI } from "./voice/captionUi";
+import { VoiceHistoryPanel } from "./voice/historyPanel";
 import { HandTrackerV2 } from "./hand-tracking/hand-tracker";
 import { GestureEngine } from "./hand-tracking/gesture-engine";
+import { gestureActionLabel, gestureLabel } from "./hand-tracking/gesture-bindings";
 import { HandGestureControlsV2 } from "./hand-tracking/hand-gesture-controls-v2";
 
 THREE.ColorManagement.enabled = false;
@@ -680,12 +703,40 @@ function hideFeatureTooltip(feature: PlanetaryFeature) {
   }
 }
 
-const changeFocus = (oldFocus: string, newFocus: string) => {
-  solarSystem[oldFocus].mesh.remove(camera);
-  solarSystem[newFocus].mesh.add(camera);
+const changeFocus = (
+  oldFocus: string,
+  newFocus: string,
+  duration = options.flyDuration,
+  angle?: CameraAngle
+) => {
   const minDistance = solarSystem[newFocus].getMinDistance();
   controls.minDistance = minDistance;
-  fakeCamera.position.set(minDistance, minDistance / 3, 0);
+  if (angle) {
+    fakeCamera.position.setFromSphericalCoords(
+      THREE.MathUtils.clamp(
+        minDistance * angle.distance,
+        minDistance,
+        controls.maxDistance
+      ),
+      THREE.MathUtils.degToRad(angle.polar),
+      THREE.MathUtils.degToRad(angle.azimuth)
+    );
+  } else {
+    fakeCamera.position.set(minDistance, minDistance / 3, 0);
+  }
+  fakeCamera.lookAt(controls.target);
+
+  // Fly the camera over; OrbitControls resume once it arrives.
+  controls.enabled = false;
+  cameraTransition.start(
+    solarSystem[oldFocus].mesh,
+    solarSystem[newFocus].mesh,
+    fakeCamera.position,
+    { duration, easing: options.flyEasing },
+    () => {
+      controls.enabled = true;
+    }
+  );
   solarSystem[oldFocus].labels.hidePOI();
   solarSystem[newFocus].labels.showPOI();
   (document.querySelector(".caption p") as HTMLElement).innerHTML = newFocus;
@@ -724,13 +775,13 @@ const changeFocus = (oldFocus: string, newFocus: string) => {
   }, 100);
 };
 
-const setFocus = (focus: string) => {
+const setFocus = (focus: string, instant = false, angle?: CameraAngle) => {
   if (!solarSystem[focus]) {
     console.warn(`[voice] Unknown focus target: ${focus}`);
     return;
   }
   const previous = options.focus;
-  changeFocus(previous, focus);
+  changeFocus(previous, focus, instant ? 0 : options.flyDuration, angle);
   options.focus = focus;
   eventBus.emit("focusChanged", {
     current: focus,
@@ -738,14 +789,21 @@ const setFocus = (focus: string) => {
   });
 };
 
-const focusPrevious = () => {
+// Index of the focus in the traversable list; moons picked directly use their parent.
+const getTraversableIndex = () => {
   const index = planetNames.indexOf(options.focus);
-  const newIndex = index === 0 ? planetNames.length - 1 : index - 1;
+  const parent = solarSystem[options.focus]?.orbits;
+  return index === -1 && parent ? planetNames.indexOf(parent) : index;
+};
+
+const focusPrevious = () => {
+  const index = getTraversableIndex();
+  const newIndex = index <= 0 ? planetNames.length - 1 : index - 1;
   setFocus(planetNames[newIndex]);
 };
 
 const focusNext = () => {
-  const index = (planetNames.indexOf(options.focus) + 1) % planetNames.length;
+  const index = (getTraversableIndex() + 1) % planetNames.length;
   setFocus(planetNames[index]);
 };
 
@@ -758,6 +816,7 @@ const aspect = sizes.width / sizes.height;
 const camera = new THREE.PerspectiveCamera(75, aspect, 0.1, 1000);
 camera.position.set(0, 20, 0);
 solarSystem["Sun"].mesh.add(camera);
+const cameraTransition = new CameraTransition(camera, scene);
 
 // Initialize planetary features
 initializePlanetaryFeatures();
@@ -771,6 +830,18 @@ controls.enablePan = false;
 controls.minDistance = solarSystem["Sun"].getMinDistance();
 controls.maxDistance = 50;
 
+// Click or tap a body to focus it
+const bodyPicker = new BodyPicker(
+  canvas,
+  camera,
+  solarSystem,
+  (name) => setFocus(name),
+  () => options.focus
+);
+
+// Picks bodies by pointing at them, with a gesture bound to "Point and Pick"
+const handCursor = new HandCursor(bodyPicker, (name) => setFocus(name));
+
 // Hand tracking system v2 - Professional architecture
 const handTracker = new HandTrackerV2();
 const gestureEngine = new GestureEngine();
@@ -971,7 +1042,7 @@ async function requestCameraAccess() {
 
 // Process hand tracking results through the gesture engine
 handTracker.onResults((results, timestamp) => {
-  gestureEngine.ingest(results.landmarks, timestamp);
+  gestureEngine.ingest(results.landmarks, timestamp, results.handedness);
   
   // Update status display
   const snapshot = gestureEngine.read();
@@ -1008,17 +1079,14 @@ function updateHandStatus(cameraStatus: string, handCount: number, gestureStatus
 function getGestureDescription(snapshot: any): string {
   if (snapshot.hands === 0) return 'No hands detected';
   
+  if (snapshot.mode === 'TwoHand') return '🙌 Two Hands → Spread to Zoom, Turn to Orbit';
+
   // Finger gesture system only
   const fingerGesture = gestureEngine.getLastFingerGesture();
-  const gestureEmojis = {
-    'open_palm': '🖐️ Open Palm → Zoom Out',
-    'closed_fist': '✊ Closed Fist → Zoom In',
-    'one_finger': '☝️ One Finger → Rotate Left',
-    'two_fingers': '✌️ Two Fingers → Rotate Right',
-    'unknown': '❓ Show gesture to camera'
-  };
-  
-  const gestureText = gestureEmojis[fingerGesture.gesture] || '❓ Unknown';
+  const gestureText =
+    fingerGesture.gesture === 'unknown'
+      ? '❓ Show gesture to camera'
+      : `${gestureLabel(fingerGesture.gesture)} → ${gestureActionLabel(gestureEngine.getBindings()[fingerGesture.gesture] ?? 'none')}`;
   const confidence = fingerGesture.confidence ? ` (${(fingerGesture.confidence * 100).toFixed(0)}%)` : '';
   const fingerCount = fingerGesture.fingerCount >= 0 ? ` [${fingerGesture.fingerCount} fingers]` : '';
   
@@ -1070,24 +1138,186 @@ bloomComposer.addPass(bloomPass);
 
 // Animate
 const clock = new THREE.Clock();
-let elapsedTime = 0;
+const simulationClock = new SimulationClock();
+
+// Timeline controls and simulated date readout
+const timeline = new Timeline(
+  document.getElementById("timeline") as HTMLElement,
+  simulationClock
+);
 
 fakeCamera.layers.enable(LAYERS.POILabel);
 
+// Settings saved from previous visits
+const applySettings = (settings: Settings) => {
+  Object.assign(options, settings.options);
+  ambientLight.intensity = settings.ambientIntensity;
+  setShowPaths(solarSystem, options.showPaths);
+  setShowMoons(solarSystem, options.showMoons);
+  setShowLabels(fakeCamera, options.showLabels);
+  const { zoom, yaw, pitch } = settings.hand;
+  handControls.setSensitivity(zoom, yaw, pitch);
+  gestureEngine.setCalibration(settings.calibration);
+  gestureEngine.setBindings(settings.gestures);
+  gestureEngine.setCustomGestures(settings.customGestures);
+};
+
+const settingsStore = new SettingsStore(
+  (): Settings => ({
+    version: SETTINGS_VERSION,
+    options: pickPersistedOptions(options),
+    ambientIntensity: ambientLight.intensity,
+    hand: handControls.getSensitivity(),
+    calibration: gestureEngine.getCalibration(),
+    gestures: gestureEngine.getBindings(),
+    customGestures: gestureEngine.getCustomGestures(),
+  })
+);
+const storedSettings = settingsStore.load();
+if (storedSettings) {
+  applySettings(storedSettings);
+}
+
 // GUI
-createGUI(ambientLight, solarSystem, clock, fakeCamera, handControls);
+createGUI(
+  ambientLight,
+  solarSystem,
+  simulationClock,
+  fakeCamera,
+  handControls,
+  gestureEngine,
+  () => {
+    applySettings(settingsStore.reset());
+    voiceNavigation.forgetCorrections();
+    eventBus.emit("voiceToggle", { enabled: options.voiceEnabled });
+    eventBus.emit("narrationToggle", { enabled: options.narrationEnabled });
+    eventBus.emit("captionsToggle", { enabled: options.showCaptions });
+  }
+);
 
-const voiceNavigation = new VoiceNavigationController(planetNames);
+const sttProviders = createSttProviders();
+const voiceNavigation = new VoiceNavigationController(planetNames, () => ({
+  provider: sttProviders[options.sttProvider] ?? sttProviders.elevenlabs,
+  streaming: options.voiceStreaming,
+  stopOnSilence: options.stopOnSilence,
+  language: options.language,
+}));
 voiceNavigation.attachUI({
   button: document.getElementById("btn-voice") as HTMLButtonElement | null,
   status: document.getElementById("voice-status"),
   transcript: document.getElementById("voice-transcript"),
   container: document.getElementById("voice-feedback"),
+  choices: document.getElementById("voice-choices"),
+});
+
+// Wake phrase listening, only whilst voice control is on
+const wakeWordListener = new WakeWordListener(() => ({
+  phrase: options.wakePhrase.trim() || DEFAULT_WAKE_PHRASE,
+  languageCode: options.language,
+}));
+const updateWakeWord = () => {
+  wakeWordListener.setEnabled(options.voiceEnabled && options.alwaysListening);
+};
+eventBus.on("voiceToggle", updateWakeWord);
+eventBus.on("wakeWordToggle", updateWakeWord);
+// Listen afresh in the new language, which may need its own on-device model
+eventBus.on("languageChanged", () => {
+  wakeWordListener.setEnabled(false);
+  updateWakeWord();
 });
 
-new WelcomeNarrator(planetNames, options.narrationEnabled, options.focus);
-const planetNarrator = new PlanetNarrator();
+new VoiceHistoryPanel(document.getElementById("voice-history") as HTMLElement);
+const speech = new SpeechSynth(() => ({
+  voice: options.speechVoice,
+  rate: options.speechRate,
+  pitch: options.speechPitch,
+}));
+new WelcomeNarrator(planetNames, options.narrationEnabled, options.focus, () => options.language, speech);
+if (options.voiceEnabled) {
+  eventBus.emit("voiceToggle", { enabled: true });
+}
+const planetNarrator = new PlanetNarrator(() => options.language, speech);
+const answerUI = new AnswerUI(document.getElementById("voice-answer"), speech);
 new NarrationUI(planetNarrator, () => options.focus);
+const captionUI = new CaptionUI(document.getElementById("narration-captions"), planetNarrator);
+captionUI.setEnabled(options.showCaptions);
+eventBus.on("captionsToggle", ({ enabled }) => captionUI.setEnabled(enabled));
+
+// Guided tours
+const tourEngine = new TourEngine(simulationClock, planetNarrator, (focus, angle) =>
+  setFocus(focus, false, angle)
+);
+new TourPanel(document.getElementById("tour") as HTMLElement, tourEngine);
+
+// Voice speed changes stay within the range of the GUI slider
+const minSpeed = 0.1;
+const maxSpeed = 20;
+const voiceZoomStep = 1.5;
+
+type ClockIntent = Extract<VoiceIntentEvent, { type: "clock" }>;
+type ToggleIntent = Extract<VoiceIntentEvent, { type: "toggle" }>;
+
+const applyClockCommand = (action: ClockIntent["action"], value?: number) => {
+  switch (action) {
+    case "play":
+      options.clock = true;
+      options.reverse = false;
+      break;
+    case "pause":
+      options.clock = false;
+      break;
+    case "reverse":
+      options.clock = true;
+      options.reverse = true;
+      break;
+    case "faster":
+      options.speed = Math.min(maxSpeed, options.speed * 2);
+      break;
+    case "slower":
+      options.speed = Math.max(minSpeed, options.speed / 2);
+      break;
+    case "speed":
+      if (value !== undefined) {
+        options.speed = THREE.MathUtils.clamp(value, minSpeed, maxSpeed);
+        options.clock = true;
+      }
+      break;
+  }
+};
+
+const applyToggleCommand = (target: ToggleIntent["target"], value?: boolean) => {
+  switch (target) {
+    case "paths":
+      setShowPaths(solarSystem, value ?? !options.showPaths);
+      break;
+    case "labels":
+      setShowLabels(fakeCamera, value ?? !options.showLabels);
+      break;
+    case "moons":
+      setShowMoons(solarSystem, value ?? !options.showMoons);
+      break;
+    case "ambient": {
+      // Same levels as the ambient light button
+      const bright = value ?? ambientLight.intensity === 0.1;
+      ambientLight.intensity = bright ? 0.5 : 0.1;
+      break;
+    }
+  }
+};
+
+// Moves a running tour along, or the focus to the neighbouring body
+const stepFocus = (direction: "next" | "previous") => {
+  if (tourEngine.isActive()) {
+    eventBus.emit("tourCommand", { action: direction });
+    return;
+  }
+  planetNarrator.stop();
+  if (direction === "next") {
+    focusNext();
+  } else {
+    focusPrevious();
+  }
+};
 
 eventBus.on("voiceCommand", (intent) => {
   switch (intent.type) {
@@ -1095,13 +1325,15 @@ eventBus.on("voiceCommand", (intent) => {
       planetNarrator.stop();
       setFocus(intent.target);
       break;
-    case "next":
-      planetNarrator.stop();
-      focusNext();
+    case "query":
+      if (options.speakAnswers) {
+        planetNarrator.stop();
+      }
+      answerUI.show(answerQuery(intent, options.focus, options.language), options.speakAnswers, options.language);
       break;
+    case "next":
     case "previous":
-      planetNarrator.stop();
-      focusPrevious();
+      stepFocus(intent.type);
       break;
     case "repeat":
       eventBus.emit("focusChanged", {
@@ -1109,16 +1341,122 @@ eventBus.on("voiceCommand", (intent) => {
         previous: options.focus,
       });
       break;
-    case "narrate":
+    case "narrate": {
+      // An empty target means the body in focus
+      const target = intent.target || options.focus;
+      if (target !== options.focus) {
+        setFocus(target);
+      }
+      planetNarrator.play(target);
       break;
+    }
     case "stop":
+      if (tourEngine.isActive()) {
+        eventBus.emit("tourCommand", { action: "pause" });
+      }
       planetNarrator.stop();
+      answerUI.stopSpeaking();
+      break;
+    case "clock":
+      // "Resume" carries on a tour paused by "stop" rather than starting the clock
+      if (intent.action === "play" && tourEngine.getState()?.paused) {
+        eventBus.emit("tourCommand", { action: "resume" });
+        break;
+      }
+      applyClockCommand(intent.action, intent.value);
       break;
+    case "toggle":
+      applyToggleCommand(intent.target, intent.value);
+      break;
+    case "zoom": {
+      // Same limits as the scroll wheel
+      const scale = intent.direction === "in" ? 1 / voiceZoomStep : voiceZoomStep;
+      const distance = THREE.MathUtils.clamp(
+        fakeCamera.position.length() * scale,
+        controls.minDistance,
+        controls.maxDistance
+      );
+      fakeCamera.position.setLength(distance);
+      break;
+    }
     default:
       break;
   }
 });
 
+// One-off actions bound to hand gestures
+eventBus.on("gestureAction", ({ action }) => {
+  switch (action) {
+    case "next_focus":
+      stepFocus("next");
+      break;
+    case "previous_focus":
+      stepFocus("previous");
+      break;
+    case "toggle_voice":
+      eventBus.emit("voiceListenToggle", {});
+      break;
+    case "toggle_narration":
+      options.narrationEnabled = !options.narrationEnabled;
+      eventBus.emit("narrationToggle", { enabled: options.narrationEnabled });
+      break;
+    case "toggle_clock":
+      options.clock = !options.clock;
+      break;
+    case "next_tour_stop":
+      eventBus.emit("tourCommand", { action: "next" });
+      break;
+  }
+});
+
+// Shareable links: restore the view from the URL and keep the URL up to date
+const deepLink = new DeepLink(
+  (): ViewState => ({
+    focus: options.focus,
+    camera: new THREE.Spherical().setFromVector3(fakeCamera.position),
+    date: simulationClock.getDate(),
+    speed: options.speed,
+    showPaths: options.showPaths,
+    showMoons: options.showMoons,
+    showLabels: options.showLabels,
+  }),
+  (state, restoring) => {
+    if (state.focus && state.focus !== options.focus) {
+      setFocus(state.focus, restoring);
+    }
+    // Back and forward only move between bodies; the rest is restored on load.
+    if (!restoring) {
+      return;
+    }
+    if (state.camera) {
+      state.camera.radius = THREE.MathUtils.clamp(
+        state.camera.radius,
+        controls.minDistance,
+        controls.maxDistance
+      );
+      state.camera.makeSafe();
+      fakeCamera.position.setFromSpherical(state.camera);
+      fakeCamera.lookAt(controls.target);
+    }
+    if (state.date) {
+      simulationClock.setDate(state.date);
+    }
+    if (state.speed !== undefined) {
+      options.speed = state.speed;
+    }
+    if (state.showPaths !== undefined) {
+      setShowPaths(solarSystem, state.showPaths);
+    }
+    if (state.showMoons !== undefined) {
+      setShowMoons(solarSystem, state.showMoons);
+    }
+    if (state.showLabels !== undefined) {
+      setShowLabels(fakeCamera, state.showLabels);
+    }
+  }
+);
+deepLink.restore();
+
 eventBus.emit("focusChanged", {
   current: options.focus,
   previous: null,
@@ -1126,22 +1464,48 @@ eventBus.emit("focusChanged", {
 
 (function tick() {
   const deltaTime = clock.getDelta();
-  elapsedTime += deltaTime * options.speed;
+  const now = performance.now();
+  if (options.clock) {
+    const direction = options.reverse ? -1 : 1;
+    simulationClock.advance(deltaTime * options.speed * direction);
+  }
+  const elapsedTime = simulationClock.getElapsedTime();
 
   // Update the solar system objects
   for (const object of Object.values(solarSystem)) {
     object.tick(elapsedTime);
   }
 
-  // Apply hand gesture deltas to OrbitControls (v2 architecture)
-  const gestureSnapshot = gestureEngine.read();
-  handControls.apply(gestureSnapshot, deltaTime);
+  // Fly between bodies, otherwise follow the orbit controls
+  if (!cameraTransition.update(now)) {
+    // Apply hand gesture deltas to OrbitControls (v2 architecture)
+    const gestureSnapshot = gestureEngine.read();
+    handControls.apply(gestureSnapshot, deltaTime);
 
-  // Update camera
-  camera.copy(fakeCamera);
+    // Update camera
+    camera.copy(fakeCamera);
+
+    // Update controls (OrbitControls handles all the camera math)
+    controls.update();
+  }
+
+  // Update timeline readout
+  timeline.update();
+
+  // Count down the current tour stop
+  tourEngine.update(now);
+
+  // Move the pointing-finger cursor, which the hover highlight follows over the mouse
+  handCursor.update(handControls.getEnabled() ? gestureEngine.getPointer() : null, now);
+
+  // Keep the hover highlight on the body under the pointer
+  bodyPicker.update();
+
+  // Keep the shareable link in step with the view
+  deepLink.update();
 
-  // Update controls (OrbitControls handles all the camera math)
-  controls.update();
+  // Remember settings for the next visit
+  settingsStore.update();
 
   // Update labels
   const currentBody = solarSystem[options.focus];
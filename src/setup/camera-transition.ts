@@ -0,0 +1,158 @@
+import * as THREE from "three";
+
+export const easings = {
+  linear: (t: number) => t,
+  easeInOutQuad: (t: number) =>
+    t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+  easeInOutCubic: (t: number) =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  easeOutQuart: (t: number) => 1 - Math.pow(1 - t, 4),
+  easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+};
+
+export type EasingName = keyof typeof easings;
+
+export interface TransitionOptions {
+  duration: number; // in seconds, 0 jumps immediately
+  easing: EasingName;
+  arc?: number; // height of the flight arc relative to distance travelled
+}
+
+interface Flight {
+  anchor: THREE.Object3D; // body the start point is relative to
+  startOffset: THREE.Vector3; // camera start, relative to anchor
+  lookOffset: THREE.Vector3; // initial look point, relative to anchor
+  startUp: THREE.Vector3;
+  target: THREE.Object3D;
+  endOffset: THREE.Vector3; // camera end, in target's local space
+  startTime: number; // performance.now() when the flight began
+  options: TransitionOptions;
+  onComplete?: () => void;
+}
+
+export class CameraTransition {
+  camera: THREE.Camera;
+  scene: THREE.Scene;
+  private flight: Flight | null = null;
+  private lookTarget = new THREE.Vector3();
+
+  /**
+   * Flies the camera between bodies along an eased path.
+   * @constructor
+   * @param camera - Camera to move, normally parented to the focused mesh.
+   * @param scene - Scene the camera is held in whilst flying.
+   */
+  constructor(camera: THREE.Camera, scene: THREE.Scene) {
+    this.camera = camera;
+    this.scene = scene;
+  }
+
+  /**
+   * Starts a flight, interrupting any flight already in progress.
+   * @param from - Body the camera is currently focused on.
+   * @param to - Body to fly to.
+   * @param endOffset - Final camera position in the target's local space.
+   * @param options - Duration and easing of the flight.
+   * @param onComplete - Called once the camera has arrived.
+   */
+  start = (
+    from: THREE.Object3D,
+    to: THREE.Object3D,
+    endOffset: THREE.Vector3,
+    options: TransitionOptions,
+    onComplete?: () => void
+  ) => {
+    // Resume from wherever an interrupted flight had got to.
+    const anchor = this.flight ? this.flight.target : from;
+    const anchorPosition = anchor.getWorldPosition(new THREE.Vector3());
+    const lookPoint = this.flight
+      ? this.lookTarget.clone()
+      : from.getWorldPosition(new THREE.Vector3());
+
+    // Hold the camera in world space for the duration of the flight.
+    this.scene.attach(this.camera);
+
+    this.flight = {
+      anchor,
+      startOffset: this.camera.position.clone().sub(anchorPosition),
+      lookOffset: lookPoint.sub(anchorPosition),
+      startUp: new THREE.Vector3(0, 1, 0).applyQuaternion(
+        this.camera.quaternion
+      ),
+      target: to,
+      endOffset: endOffset.clone(),
+      startTime: performance.now(),
+      options,
+      onComplete,
+    };
+
+    if (options.duration <= 0) {
+      this.finish();
+    }
+  };
+
+  /**
+   * Advances the current flight. Flights run in real time, so they finish
+   * whether or not the simulation is paused.
+   * @param now - Current time from performance.now().
+   * @returns whether the camera is still flying.
+   */
+  update = (now: number): boolean => {
+    if (!this.flight) {
+      return false;
+    }
+
+    const flight = this.flight;
+    const elapsed = (now - flight.startTime) / 1000;
+    const progress = Math.min(1, elapsed / flight.options.duration);
+
+    if (progress >= 1) {
+      this.finish();
+      return false;
+    }
+
+    const t = easings[flight.options.easing](progress);
+    const anchorPosition = flight.anchor.getWorldPosition(new THREE.Vector3());
+    const targetPosition = flight.target.getWorldPosition(new THREE.Vector3());
+
+    const start = anchorPosition.clone().add(flight.startOffset);
+    const end = flight.target.localToWorld(flight.endOffset.clone());
+    const position = start.clone().lerp(end, t);
+
+    // Lift the path away from bodies lying between the two points.
+    const arc = (flight.options.arc ?? 0.2) * start.distanceTo(end);
+    position.y += Math.sin(Math.PI * t) * arc;
+
+    const endUp = new THREE.Vector3(0, 1, 0).applyQuaternion(
+      flight.target.getWorldQuaternion(new THREE.Quaternion())
+    );
+
+    this.lookTarget
+      .copy(anchorPosition)
+      .add(flight.lookOffset)
+      .lerp(targetPosition, t);
+
+    this.camera.position.copy(position);
+    this.camera.up.copy(flight.startUp).lerp(endUp, t).normalize();
+    this.camera.lookAt(this.lookTarget);
+
+    return true;
+  };
+
+  /**
+   * @returns whether a flight is in progress.
+   */
+  isActive = (): boolean => {
+    return this.flight !== null;
+  };
+
+  private finish = () => {
+    if (!this.flight) {
+      return;
+    }
+    const { target, onComplete } = this.flight;
+    this.flight = null;
+    target.add(this.camera);
+    onComplete?.();
+  };
+}
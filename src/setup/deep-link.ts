@@ -0,0 +1,187 @@
+import * as THREE from "three";
+import { eventBus } from "../voice/eventBus";
+import { parseSimulationDate } from "./simulation-clock";
+
+// Minimum time between address bar updates, in ms.
+const replaceInterval = 1000;
+
+export interface ViewState {
+  focus?: string;
+  camera?: THREE.Spherical; // camera offset from the focused body
+  date?: Date;
+  speed?: number;
+  showPaths?: boolean;
+  showMoons?: boolean;
+  showLabels?: boolean;
+}
+
+const parseFlag = (value: string | null): boolean | undefined => {
+  if (value === "1" || value === "true") {
+    return true;
+  }
+  if (value === "0" || value === "false") {
+    return false;
+  }
+  return undefined;
+};
+
+/**
+ * Reads a view state from a URL hash, skipping any values that are missing or invalid.
+ * @param hash - Hash such as `#focus=Saturn&t=2030-01-01T00:00Z&speed=10`.
+ */
+export const parseViewState = (hash: string): ViewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: ViewState = {};
+
+  const focus = params.get("focus");
+  if (focus) {
+    state.focus = focus;
+  }
+
+  const camera = params.get("cam")?.split(",").map(Number);
+  if (
+    camera &&
+    camera.length === 3 &&
+    camera.every(Number.isFinite) &&
+    camera[0] > 0
+  ) {
+    state.camera = new THREE.Spherical(camera[0], camera[1], camera[2]);
+  }
+
+  const time = params.get("t");
+  const date = time ? parseSimulationDate(time) : null;
+  if (date) {
+    state.date = date;
+  }
+
+  const speed = Number(params.get("speed"));
+  if (params.has("speed") && Number.isFinite(speed) && speed > 0) {
+    state.speed = speed;
+  }
+
+  state.showPaths = parseFlag(params.get("paths"));
+  state.showMoons = parseFlag(params.get("moons"));
+  state.showLabels = parseFlag(params.get("labels"));
+
+  return state;
+};
+
+/**
+ * Writes a view state as a URL hash.
+ * @param state - View to describe.
+ */
+export const serialiseViewState = (state: ViewState): string => {
+  const params: string[] = [];
+  const flag = (value: boolean) => (value ? "1" : "0");
+
+  if (state.focus) {
+    params.push(`focus=${encodeURIComponent(state.focus)}`);
+  }
+  if (state.camera) {
+    const { radius, phi, theta } = state.camera;
+    params.push(`cam=${radius.toFixed(2)},${phi.toFixed(3)},${theta.toFixed(3)}`);
+  }
+  if (state.date) {
+    // Minute precision keeps the link short whilst time is running.
+    params.push(`t=${state.date.toISOString().slice(0, 16)}Z`);
+  }
+  if (state.speed !== undefined) {
+    params.push(`speed=${Number(state.speed.toFixed(3))}`);
+  }
+  if (state.showPaths !== undefined) {
+    params.push(`paths=${flag(state.showPaths)}`);
+  }
+  if (state.showMoons !== undefined) {
+    params.push(`moons=${flag(state.showMoons)}`);
+  }
+  if (state.showLabels !== undefined) {
+    params.push(`labels=${flag(state.showLabels)}`);
+  }
+
+  return `#${params.join("&")}`;
+};
+
+export class DeepLink {
+  private read: () => ViewState;
+  private apply: (state: ViewState, restoring: boolean) => void;
+  private lastReplace = 0;
+  private navigating = false;
+
+  /**
+   * Mirrors the view in the URL hash so it can be shared or bookmarked. The hash is
+   * kept up to date as the view changes, and each focus change adds a history entry
+   * so back and forward move between focused bodies.
+   * @constructor
+   * @param read - Returns the current view.
+   * @param apply - Applies a view; `restoring` is true on page load, when it should
+   * be applied instantly and in full.
+   */
+  constructor(
+    read: () => ViewState,
+    apply: (state: ViewState, restoring: boolean) => void
+  ) {
+    this.read = read;
+    this.apply = apply;
+
+    eventBus.on("focusChanged", this.onFocusChanged);
+    window.addEventListener("popstate", this.onPopState);
+  }
+
+  /**
+   * Applies the view described by the current URL, if any.
+   * @returns whether the URL described a view.
+   */
+  restore = (): boolean => {
+    if (window.location.hash.length <= 1) {
+      return false;
+    }
+    this.navigating = true;
+    this.apply(parseViewState(window.location.hash), true);
+    this.navigating = false;
+    return true;
+  };
+
+  /**
+   * Keeps the current history entry in step with the view, at most once a second.
+   */
+  update = () => {
+    const now = performance.now();
+    if (now - this.lastReplace < replaceInterval) {
+      return;
+    }
+    this.lastReplace = now;
+    this.write(false);
+  };
+
+  private write = (push: boolean) => {
+    const hash = serialiseViewState(this.read());
+    if (hash === window.location.hash) {
+      return;
+    }
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (push) {
+      window.history.pushState(null, "", url);
+    } else {
+      window.history.replaceState(null, "", url);
+    }
+  };
+
+  private onFocusChanged = ({
+    current,
+    previous,
+  }: {
+    current: string;
+    previous: string | null;
+  }) => {
+    if (this.navigating || previous === null || previous === current) {
+      return;
+    }
+    this.write(true);
+  };
+
+  private onPopState = () => {
+    this.navigating = true;
+    this.apply(parseViewState(window.location.hash), false);
+    this.navigating = false;
+  };
+}
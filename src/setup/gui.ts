@@ -1,26 +1,100 @@
 import * as dat from "lil-gui";
 import { SolarSystem } from "./solar-system";
 import { LAYERS } from "../constants";
+import { customGestureId } from "../hand-tracking/custom-gestures";
+import { GESTURE_ACTIONS, GESTURE_LABELS, GestureAction, gestureLabel } from "../hand-tracking/gesture-bindings";
+import { GestureEngine } from "../hand-tracking/gesture-engine";
 import { eventBus } from "../voice/eventBus";
+import { DEFAULT_LANGUAGE, LANGUAGES, LanguageCode } from "../voice/language";
+import { speechVoiceOptions } from "../voice/speech";
+import { STT_PROVIDERS, SttProviderId } from "../voice/sttProviders";
+import { DEFAULT_WAKE_PHRASE } from "../voice/wakeWord";
+import { EasingName, easings } from "./camera-transition";
+import {
+  SimulationClock,
+  formatSimulationDate,
+  parseSimulationDate,
+} from "./simulation-clock";
 
 export const options = {
   showPaths: false,
   showMoons: true,
+  showLabels: true,
   focus: "Sun",
   clock: true,
+  reverse: false,
   speed: 0.125,
   zangle: 0,
   yangle: 0,
+  flyDuration: 1.5,
+  flyEasing: "easeInOutCubic" as EasingName,
   voiceEnabled: false,
   narrationEnabled: false,
+  showCaptions: true,
+  language: DEFAULT_LANGUAGE as LanguageCode,
+  speakAnswers: true,
+  speechVoice: "",
+  speechRate: 1,
+  speechPitch: 1,
+  sttProvider: "elevenlabs" as SttProviderId,
+  voiceStreaming: false,
+  stopOnSilence: true,
+  alwaysListening: false,
+  wakePhrase: DEFAULT_WAKE_PHRASE,
+};
+
+/**
+ * Shows or hides all moons.
+ * @param solarSystem - Bodies to update.
+ * @param value - Whether moons are visible.
+ */
+export const setShowMoons = (solarSystem: SolarSystem, value: boolean) => {
+  options.showMoons = value;
+  for (const name in solarSystem) {
+    const object = solarSystem[name];
+    if (object.type === "moon") {
+      object.mesh.visible = value;
+    }
+  }
+};
+
+/**
+ * Shows or hides all orbital paths.
+ * @param solarSystem - Bodies to update.
+ * @param value - Whether paths are visible.
+ */
+export const setShowPaths = (solarSystem: SolarSystem, value: boolean) => {
+  options.showPaths = value;
+  for (const name in solarSystem) {
+    const object = solarSystem[name];
+    if (object.path) {
+      object.path.visible = value;
+    }
+  }
+};
+
+/**
+ * Shows or hides point-of-interest labels.
+ * @param camera - Camera whose label layer is toggled.
+ * @param value - Whether labels are visible.
+ */
+export const setShowLabels = (camera: THREE.Camera, value: boolean) => {
+  options.showLabels = value;
+  if (value) {
+    camera.layers.enable(LAYERS.POILabel);
+  } else {
+    camera.layers.disable(LAYERS.POILabel);
+  }
 };
 
 export const createGUI = (
   ambientLight: THREE.AmbientLight,
   solarSystem: SolarSystem,
-  clock: THREE.Clock,
+  simulationClock: SimulationClock,
   camera: THREE.Camera,
-  handControls?: any
+  handControls?: any,
+  gestureEngine?: GestureEngine,
+  onReset?: () => void
 ) => {
   const gui = new dat.GUI();
 
@@ -32,25 +106,45 @@ export const createGUI = (
   gui
     .add(options, "showMoons")
     .name("Show Moons")
+    .listen()
     .onChange((value: boolean) => {
-      for (const name in solarSystem) {
-        const object = solarSystem[name];
-        if (object.type === "moon") {
-          object.mesh.visible = value;
-        }
-      }
+      setShowMoons(solarSystem, value);
     });
 
-  // Pause the simulation
-  gui
-    .add(options, "clock")
-    .name("Run")
-    .onChange((value: boolean) => {
-      value ? clock.start() : clock.stop();
-    });
+  // Pause the simulation; only simulated time stops, so flights and tours carry on
+  gui.add(options, "clock").name("Run").listen();
+
+  gui.add(options, "reverse").name("Reverse").listen();
 
   // Control the simulation speed
-  gui.add(options, "speed", 0.1, 20, 0.1).name("Speed");
+  gui.add(options, "speed", 0.1, 20, 0.1).name("Speed").listen();
+
+  // Camera fly-to transitions
+  const cameraFolder = gui.addFolder("Camera");
+  cameraFolder.add(options, "flyDuration", 0, 5, 0.1).name("Fly Duration (s)");
+  cameraFolder.add(options, "flyEasing", Object.keys(easings)).name("Easing");
+  cameraFolder.close();
+
+  // Jump to a date
+  const dateFolder = gui.addFolder("Date");
+  const dateState = {
+    date: formatSimulationDate(simulationClock.getDate()).replace(" UTC", ""),
+    now: () => {
+      simulationClock.setDate(new Date());
+    },
+  };
+
+  dateFolder
+    .add(dateState, "date")
+    .name("Date (UTC)")
+    .onFinishChange((value: string) => {
+      const date = parseSimulationDate(value);
+      if (date) {
+        simulationClock.setDate(date);
+      }
+    });
+
+  dateFolder.add(dateState, "now").name("Jump to Now");
 
   gui
     .add(options, "voiceEnabled")
@@ -62,15 +156,75 @@ export const createGUI = (
   gui
     .add(options, "narrationEnabled")
     .name("Enable Narration")
+    .listen()
     .onChange((enabled: boolean) => {
       eventBus.emit("narrationToggle", { enabled });
     });
 
+  gui
+    .add(options, "showCaptions")
+    .name("Narration Captions")
+    .onChange((enabled: boolean) => {
+      eventBus.emit("captionsToggle", { enabled });
+    });
+
+  gui
+    .add(options, "language", LANGUAGES)
+    .name("Language")
+    .onChange((language: LanguageCode) => {
+      eventBus.emit("languageChanged", { language });
+    });
+
+  gui
+    .add(options, "sttProvider", STT_PROVIDERS)
+    .name("Speech Recognition");
+
+  gui.add(options, "voiceStreaming").name("Live Transcripts");
+
+  gui.add(options, "stopOnSilence").name("Stop On Silence");
+
+  // Off by default: the microphone stays open whilst this is on
+  gui
+    .add(options, "alwaysListening")
+    .name("Always Listening")
+    .onChange((enabled: boolean) => {
+      eventBus.emit("wakeWordToggle", { enabled });
+    });
+
+  gui.add(options, "wakePhrase").name("Wake Phrase");
+
+  gui.add(options, "speakAnswers").name("Speak Answers");
+
+  // How the browser speaks answers, and narration that has no recording
+  const speechFolder = gui.addFolder("Spoken Voice");
+  let voiceController = speechFolder.add(options, "speechVoice", speechVoiceOptions()).name("Voice");
+  speechFolder.add(options, "speechRate", 0.5, 2, 0.05).name("Rate");
+  speechFolder.add(options, "speechPitch", 0, 2, 0.05).name("Pitch");
+  // Browsers list their voices some time after the page loads
+  if (typeof speechSynthesis !== "undefined") {
+    speechSynthesis.addEventListener("voiceschanged", () => {
+      voiceController = voiceController.options(speechVoiceOptions()).name("Voice");
+    });
+  }
+  speechFolder.close();
+
+  const sensitivity = {
+    zoom: 1,
+    yaw: 1,
+    pitch: 1,
+    deadZone: 0.1,
+    ...handControls?.getSensitivity(),
+  };
+
+  // What each gesture does, edited in place and handed to the engine
+  const bindings = { ...gestureEngine?.getBindings() };
+  // Matches the controls for trained gestures to those the engine knows
+  let syncCustomGestures = () => {};
+
   if (handControls) {
     const handFolder = gui.addFolder("Hand Controls");
 
     const handState = { enabled: true };
-    const sensitivity = { zoom: 10, rotation: 2, deadZone: 0.1 };
 
     handFolder
       .add(handState, "enabled")
@@ -80,19 +234,26 @@ export const createGUI = (
       });
 
     handFolder
-      .add(sensitivity, "zoom", 1, 30)
+      .add(sensitivity, "zoom", 0.1, 5)
       .name("Zoom Sensitivity")
       .onChange((value: number) => {
         handControls.setSensitivity(value, undefined);
       });
 
     handFolder
-      .add(sensitivity, "rotation", 0.5, 10)
+      .add(sensitivity, "yaw", 0.1, 5)
       .name("Rotation Sensitivity")
       .onChange((value: number) => {
         handControls.setSensitivity(undefined, value);
       });
 
+    handFolder
+      .add(sensitivity, "pitch", 0.1, 5)
+      .name("Tilt Sensitivity")
+      .onChange((value: number) => {
+        handControls.setSensitivity(undefined, undefined, value);
+      });
+
     handFolder
       .add(sensitivity, "deadZone", 0, 0.5)
       .name("Dead Zone")
@@ -100,9 +261,97 @@ export const createGUI = (
         handControls.setDeadZone(value);
       });
 
+    if (gestureEngine) {
+      const bindingsFolder = handFolder.addFolder("Gesture Actions");
+      const addBinding = (gesture: string) => {
+        bindings[gesture] ??= "none";
+        return bindingsFolder
+          .add(bindings, gesture, GESTURE_ACTIONS)
+          .name(gestureLabel(gesture))
+          .onChange((action: GestureAction) => {
+            gestureEngine.setBinding(gesture, action);
+          });
+      };
+      Object.keys(GESTURE_LABELS).forEach(addBinding);
+
+      // Gestures trained by showing them to the camera, each bound like the built-in ones
+      const customFolder = handFolder.addFolder("Custom Gestures");
+      const training = {
+        name: "",
+        record: () => {
+          const name = training.name.trim();
+          if (name) {
+            gestureEngine.recordGesture(name);
+          }
+        },
+      };
+      customFolder.add(training, "name").name("New Gesture Name");
+      const recordController = customFolder.add(training, "record").name("Record Samples");
+      const customControllers = new Map<string, dat.Controller[]>();
+
+      syncCustomGestures = () => {
+        const names = gestureEngine.getCustomGestures().map(({ name }) => name);
+        for (const [name, controllers] of customControllers) {
+          if (!names.includes(name)) {
+            controllers.forEach((controller) => controller.destroy());
+            customControllers.delete(name);
+            delete bindings[customGestureId(name)];
+          }
+        }
+        for (const name of names) {
+          if (customControllers.has(name)) {
+            continue;
+          }
+          const forgetState = {
+            forget: () => {
+              gestureEngine.forgetGesture(name);
+              syncCustomGestures();
+            },
+          };
+          customControllers.set(name, [
+            addBinding(customGestureId(name)),
+            customFolder.add(forgetState, "forget").name(`Forget "${name}"`),
+          ]);
+        }
+      };
+      syncCustomGestures();
+
+      eventBus.on("gestureRecording", ({ name, recorded, total, done, saved }) => {
+        if (!done) {
+          recordController.name(`Recording "${name}"… ${recorded}/${total}`);
+          return;
+        }
+        recordController.name(saved ? "Record Samples" : "Record Samples (too few seen, try again)");
+        if (saved) {
+          training.name = "";
+          syncCustomGestures();
+          customFolder.controllersRecursive().forEach((controller) => controller.updateDisplay());
+        }
+      });
+    }
+
     handFolder.close();
   }
 
+  if (onReset) {
+    const resetState = {
+      reset: () => {
+        onReset();
+        if (handControls) {
+          Object.assign(sensitivity, handControls.getSensitivity());
+        }
+        if (gestureEngine) {
+          syncCustomGestures();
+          Object.assign(bindings, gestureEngine.getBindings());
+        }
+        gui.controllersRecursive().forEach((controller) => {
+          controller.updateDisplay();
+        });
+      },
+    };
+    gui.add(resetState, "reset").name("Reset to Defaults");
+  }
+
   gui.hide();
 
   // Toggle ambient lights
@@ -112,19 +361,12 @@ export const createGUI = (
 
   // Toggle labels
   document.getElementById("btn-labels")?.addEventListener("click", () => {
-    camera.layers.toggle(LAYERS.POILabel);
+    setShowLabels(camera, !options.showLabels);
   });
 
   // Toggle paths
   document.getElementById("btn-paths")?.addEventListener("click", () => {
-    options.showPaths = !options.showPaths;
-
-    for (const name in solarSystem) {
-      const object = solarSystem[name];
-      if (object.path) {
-        object.path.visible = options.showPaths;
-      }
-    }
+    setShowPaths(solarSystem, !options.showPaths);
   });
 
   // Toggle GUI panel
@@ -0,0 +1,74 @@
+import { HandPointer } from "../hand-tracking/gesture-types";
+import { BodyPicker } from "./picker";
+
+// How long the cursor must rest on a body to pick it, in ms.
+const dwellTime = 1500;
+
+export class HandCursor {
+  private picker: BodyPicker;
+  private onPick: (name: string) => void;
+  private element: HTMLElement;
+  private target: string | null = null;
+  private targetSince = 0;
+  private picked = false; // the target has been picked; wait for the cursor to move on
+  private wasPinching = false;
+
+  /**
+   * On-screen cursor following a pointing finger. The body under it is highlighted,
+   * and picked when the cursor rests on it or the finger pinches the thumb.
+   * @constructor
+   * @param picker - Finds and highlights the body under the cursor.
+   * @param onPick - Called with the name of a picked body.
+   */
+  constructor(picker: BodyPicker, onPick: (name: string) => void) {
+    this.picker = picker;
+    this.onPick = onPick;
+
+    this.element = document.createElement("div");
+    this.element.className = "hand-cursor";
+    this.element.style.display = "none";
+    document.body.appendChild(this.element);
+  }
+
+  /**
+   * Moves the cursor, picking the body under it once dwelt on or pinched.
+   * @param pointer - Where the finger points, or null when nothing is pointing.
+   * @param now - Current time in ms.
+   */
+  update = (pointer: HandPointer | null, now: number) => {
+    if (!pointer) {
+      if (this.element.style.display !== "none") {
+        this.element.style.display = "none";
+        this.picker.aim(null);
+      }
+      this.target = null;
+      this.wasPinching = false;
+      return;
+    }
+
+    const x = pointer.x * window.innerWidth;
+    const y = pointer.y * window.innerHeight;
+    this.element.style.display = "block";
+    this.element.style.left = `${x}px`;
+    this.element.style.top = `${y}px`;
+    this.element.classList.toggle("is-pinching", pointer.pinching);
+    this.picker.aim({ x, y });
+
+    const name = this.picker.getHovered()?.name ?? null;
+    if (name !== this.target) {
+      this.target = name;
+      this.targetSince = now;
+      this.picked = false;
+    }
+
+    const pinched = pointer.pinching && !this.wasPinching;
+    this.wasPinching = pointer.pinching;
+    const dwell = name && !this.picked ? Math.min(1, (now - this.targetSince) / dwellTime) : 0;
+    this.element.style.setProperty("--dwell", dwell.toFixed(3));
+
+    if (name && !this.picked && (pinched || dwell >= 1)) {
+      this.picked = true;
+      this.onPick(name);
+    }
+  };
+}
@@ -0,0 +1,183 @@
+import * as THREE from "three";
+
+export interface OrbitalElements {
+  semiMajorAxis: number; // in million km
+  eccentricity: number; // 0 = circle, <1 = ellipse
+  inclination: number; // degrees, relative to the ecliptic
+  longitudeOfAscendingNode: number; // degrees
+  argumentOfPeriapsis: number; // degrees
+  meanAnomaly: number; // degrees, at epoch
+  period?: number; // sidereal, in days
+  nodalPrecession?: number; // degrees per day, negative when the node regresses
+  apsidalPrecession?: number; // degrees per day, of the argument of periapsis
+}
+
+const keplerTolerance = 1e-8;
+const keplerMaxIterations = 16;
+
+export const normaliseDistance = (distance: number): number => {
+  return Math.pow(distance, 0.4);
+};
+
+const degreesToRadians = (degrees: number): number => {
+  return (Math.PI * degrees) / 180;
+};
+
+/**
+ * Solves Kepler's equation M = E - e sin(E) for the eccentric anomaly.
+ * @param meanAnomaly - Mean anomaly in radians.
+ * @param eccentricity - Orbital eccentricity.
+ * @returns eccentric anomaly in radians.
+ */
+export const solveKepler = (meanAnomaly: number, eccentricity: number) => {
+  const M = THREE.MathUtils.euclideanModulo(meanAnomaly, Math.PI * 2);
+  let E = eccentricity < 0.8 ? M : Math.PI;
+
+  // Newton-Raphson iteration.
+  for (let i = 0; i < keplerMaxIterations; i++) {
+    const delta =
+      (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < keplerTolerance) {
+      break;
+    }
+  }
+
+  return E;
+};
+
+export class Orbit {
+  semiMajorAxis: number; // in million km
+  eccentricity: number;
+  meanAnomalyAtEpoch: number; // radians
+  private elements: OrbitalElements;
+  private rotation: THREE.Matrix4;
+  private epochRotationInverse: THREE.Matrix4;
+  private drift = 0; // radians the periapsis has moved along the orbit since the epoch
+
+  /**
+   * Represents a Keplerian orbit around a parent body.
+   * @constructor
+   * @param elements - Orbital elements, angles in degrees.
+   */
+  constructor(elements: OrbitalElements) {
+    this.semiMajorAxis = elements.semiMajorAxis;
+    this.eccentricity = elements.eccentricity;
+    this.meanAnomalyAtEpoch = degreesToRadians(elements.meanAnomaly);
+    this.elements = elements;
+    this.rotation = this.createRotation(elements);
+    this.epochRotationInverse = this.rotation.clone().invert();
+  }
+
+  /**
+   * Creates a circular orbit.
+   * @param distance - Orbit radius in million km.
+   * @param phase - Starting position along the orbit in radians.
+   * @param inclination - Tilt of the orbital plane in radians.
+   */
+  static circular = (distance: number, phase: number, inclination = 0) => {
+    return new Orbit({
+      semiMajorAxis: distance,
+      eccentricity: 0,
+      inclination: THREE.MathUtils.radToDeg(inclination),
+      longitudeOfAscendingNode: 0,
+      argumentOfPeriapsis: 0,
+      meanAnomaly: THREE.MathUtils.radToDeg(phase),
+    });
+  };
+
+  /**
+   * Turns the orbit for the slow drift of its node and periapsis, such as the Moon's.
+   * @param days - Days since the epoch.
+   * @param path - Path drawn for the orbit at the epoch, turned to match.
+   */
+  precess = (days: number, path?: THREE.Object3D) => {
+    const { nodalPrecession = 0, apsidalPrecession = 0 } = this.elements;
+    if (!nodalPrecession && !apsidalPrecession) {
+      return;
+    }
+
+    this.rotation = this.createRotation({
+      ...this.elements,
+      longitudeOfAscendingNode:
+        this.elements.longitudeOfAscendingNode + nodalPrecession * days,
+      argumentOfPeriapsis:
+        this.elements.argumentOfPeriapsis + apsidalPrecession * days,
+    });
+    this.drift = degreesToRadians((nodalPrecession + apsidalPrecession) * days);
+
+    // Distances are compressed along the radius, so rotating the path is enough.
+    path?.quaternion.setFromRotationMatrix(
+      new THREE.Matrix4().multiplyMatrices(this.rotation, this.epochRotationInverse)
+    );
+  };
+
+  /**
+   * Calculates the scene position for a given advance along the orbit.
+   * @param meanMotion - Mean longitude gained since the epoch, in radians; the
+   * periapsis drift set by `precess` is taken off to give the mean anomaly.
+   * @param target - Vector to write the position into.
+   * @returns position relative to the parent body.
+   */
+  getPosition = (meanMotion: number, target = new THREE.Vector3()) => {
+    const E = solveKepler(
+      this.meanAnomalyAtEpoch + meanMotion - this.drift,
+      this.eccentricity
+    );
+    return this.getPositionFromEccentricAnomaly(E, target);
+  };
+
+  /**
+   * Samples the orbit evenly by eccentric anomaly.
+   * @param count - Number of points to sample.
+   * @returns closed list of points describing the orbit.
+   */
+  getPathPoints = (count: number) => {
+    const points: THREE.Vector3[] = [];
+
+    for (let i = 0; i <= count; i++) {
+      const E = (i / count) * Math.PI * 2;
+      points.push(this.getPositionFromEccentricAnomaly(E));
+    }
+
+    return points;
+  };
+
+  private getPositionFromEccentricAnomaly = (
+    E: number,
+    target = new THREE.Vector3()
+  ) => {
+    const a = this.semiMajorAxis;
+    const e = this.eccentricity;
+
+    // Position in the orbital plane, with periapsis along +x.
+    const x = a * (Math.cos(E) - e);
+    const y = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+    // Ecliptic (x, y, z) maps to scene (x, z, -y) so orbits run anti-clockwise from above.
+    target.set(x, 0, -y).applyMatrix4(this.rotation);
+
+    // Compress astronomical distances while preserving direction.
+    const distance = target.length();
+    if (distance > 0) {
+      target.multiplyScalar(normaliseDistance(distance) / distance);
+    }
+
+    return target;
+  };
+
+  private createRotation = (elements: OrbitalElements) => {
+    const up = new THREE.Vector3(0, 1, 0);
+    const nodeAxis = new THREE.Vector3(1, 0, 0);
+    const ascendingNode = degreesToRadians(elements.longitudeOfAscendingNode);
+    const inclination = degreesToRadians(elements.inclination);
+    const periapsis = degreesToRadians(elements.argumentOfPeriapsis);
+
+    // Rotate by the argument of periapsis, then tilt about the line of nodes,
+    // then swing the line of nodes around the ecliptic pole.
+    return new THREE.Matrix4()
+      .makeRotationAxis(up, ascendingNode)
+      .multiply(new THREE.Matrix4().makeRotationAxis(nodeAxis, inclination))
+      .multiply(new THREE.Matrix4().makeRotationAxis(up, periapsis));
+  };
+}
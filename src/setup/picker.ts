@@ -0,0 +1,236 @@
+import * as THREE from "three";
+import { SolarSystem } from "./solar-system";
+
+// Pointer travel (px) and duration (ms) beyond which a press is a drag, not a click.
+const clickMoveTolerance = 6;
+const clickTimeTolerance = 500;
+
+// Bodies smaller than this on screen can still be picked within this radius (px).
+const minPickRadius = 14;
+
+export interface PickResult {
+  name: string;
+  screen: THREE.Vector2; // body centre in CSS pixels
+  radius: number; // projected body radius in CSS pixels
+}
+
+export class BodyPicker {
+  private canvas: HTMLElement;
+  private camera: THREE.PerspectiveCamera;
+  private solarSystem: SolarSystem;
+  private onPick: (name: string) => void;
+  private getFocus: () => string;
+  private raycaster = new THREE.Raycaster();
+  private meshes: THREE.Object3D[] = [];
+  private names = new Map<THREE.Object3D, string>();
+  private pressStart: { x: number; y: number; t: number } | null = null;
+  private pointer: { x: number; y: number } | null = null;
+  private aimed: { x: number; y: number } | null = null;
+  private hovered: PickResult | null = null;
+  private highlight: HTMLElement;
+  private tooltip: HTMLElement;
+  enabled = true;
+
+  /**
+   * Raycast picking of bodies on the canvas, with a hover highlight and name tooltip.
+   * @constructor
+   * @param canvas - Canvas receiving pointer events.
+   * @param camera - Camera the scene is rendered with.
+   * @param solarSystem - Bodies that can be picked.
+   * @param onPick - Called with the name of a clicked or tapped body.
+   * @param getFocus - Returns the focused body, which is not highlighted or picked.
+   */
+  constructor(
+    canvas: HTMLElement,
+    camera: THREE.PerspectiveCamera,
+    solarSystem: SolarSystem,
+    onPick: (name: string) => void,
+    getFocus: () => string
+  ) {
+    this.canvas = canvas;
+    this.camera = camera;
+    this.solarSystem = solarSystem;
+    this.onPick = onPick;
+    this.getFocus = getFocus;
+
+    for (const name in solarSystem) {
+      const object = solarSystem[name];
+      // Rings pick the planet they belong to.
+      const target = object.type === "ring" && object.orbits ? object.orbits : name;
+      this.meshes.push(object.mesh);
+      this.names.set(object.mesh, target);
+    }
+
+    this.highlight = this.createElement("pick-highlight");
+    this.tooltip = this.createElement("pick-tooltip");
+
+    canvas.addEventListener("pointerdown", this.onPointerDown);
+    canvas.addEventListener("pointermove", this.onPointerMove);
+    canvas.addEventListener("pointerup", this.onPointerUp);
+    canvas.addEventListener("pointerleave", this.onPointerLeave);
+  }
+
+  /**
+   * Finds the body under a screen position.
+   * @param x - Horizontal position in CSS pixels.
+   * @param y - Vertical position in CSS pixels.
+   * @returns the picked body, or null if there is nothing there.
+   */
+  pick = (x: number, y: number): PickResult | null => {
+    const rect = this.canvas.getBoundingClientRect();
+    const ndc = new THREE.Vector2(
+      ((x - rect.left) / rect.width) * 2 - 1,
+      -((y - rect.top) / rect.height) * 2 + 1
+    );
+
+    this.raycaster.setFromCamera(ndc, this.camera);
+    const hits = this.raycaster
+      .intersectObjects(this.meshes, false)
+      .filter((hit) => hit.object.visible);
+
+    if (hits.length > 0) {
+      const name = this.names.get(hits[0].object);
+      if (name) {
+        return this.project(name, rect);
+      }
+    }
+
+    // Fall back to the nearest small body within reach of the pointer.
+    let best: PickResult | null = null;
+    let bestDistance = Infinity;
+    for (const name of new Set(this.names.values())) {
+      const result = this.project(name, rect);
+      if (!result) {
+        continue;
+      }
+      const distance = result.screen.distanceTo(new THREE.Vector2(x, y));
+      const reach = Math.max(minPickRadius, result.radius);
+      if (distance <= reach && distance < bestDistance) {
+        best = result;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  /**
+   * Keeps the hover highlight attached to the body as it moves.
+   */
+  update = () => {
+    const pointer = this.aimed ?? (this.pressStart ? null : this.pointer);
+    if (!this.enabled || !pointer) {
+      this.setHovered(null);
+      return;
+    }
+    const result = this.pick(pointer.x, pointer.y);
+    this.setHovered(result && result.name !== this.getFocus() ? result : null);
+  };
+
+  /**
+   * Highlights what another pointer, such as a hand cursor, is over; it takes the
+   * place of the mouse until cleared.
+   * @param position - Position in CSS pixels, or null to follow the mouse again.
+   */
+  aim = (position: { x: number; y: number } | null) => {
+    this.aimed = position;
+  };
+
+  private onPointerDown = (event: PointerEvent) => {
+    this.pressStart = { x: event.clientX, y: event.clientY, t: event.timeStamp };
+    this.setHovered(null);
+  };
+
+  private onPointerMove = (event: PointerEvent) => {
+    this.pointer = { x: event.clientX, y: event.clientY };
+  };
+
+  private onPointerUp = (event: PointerEvent) => {
+    const start = this.pressStart;
+    this.pressStart = null;
+    if (!this.enabled || !start) {
+      return;
+    }
+
+    // Leave drags to OrbitControls.
+    const moved = Math.hypot(event.clientX - start.x, event.clientY - start.y);
+    const duration = event.timeStamp - start.t;
+    if (moved > clickMoveTolerance || duration > clickTimeTolerance) {
+      return;
+    }
+
+    const result = this.pick(event.clientX, event.clientY);
+    if (result && result.name !== this.getFocus()) {
+      this.onPick(result.name);
+    }
+  };
+
+  private onPointerLeave = () => {
+    this.pointer = null;
+    this.pressStart = null;
+    this.setHovered(null);
+  };
+
+  private project = (name: string, rect: DOMRect): PickResult | null => {
+    const object = this.solarSystem[name];
+    if (!object || !object.mesh.visible) {
+      return null;
+    }
+
+    const centre = object.mesh.getWorldPosition(new THREE.Vector3());
+    const distance = centre.distanceTo(
+      this.camera.getWorldPosition(new THREE.Vector3())
+    );
+    const ndc = centre.clone().project(this.camera);
+    if (ndc.z > 1 || ndc.z < -1) {
+      return null; // Behind the camera or beyond the far plane.
+    }
+
+    const screen = new THREE.Vector2(
+      rect.left + ((ndc.x + 1) / 2) * rect.width,
+      rect.top + ((1 - ndc.y) / 2) * rect.height
+    );
+    const fov = THREE.MathUtils.degToRad(this.camera.fov);
+    const radius =
+      (object.radius / (distance * Math.tan(fov / 2))) * (rect.height / 2);
+
+    return { name, screen, radius };
+  };
+
+  private setHovered = (result: PickResult | null) => {
+    this.hovered = result;
+    this.canvas.style.cursor = result ? "pointer" : "";
+
+    if (!result) {
+      this.highlight.style.display = "none";
+      this.tooltip.style.display = "none";
+      return;
+    }
+
+    const size = 2 * Math.max(minPickRadius, result.radius * 1.15);
+    this.highlight.style.display = "block";
+    this.highlight.style.width = `${size}px`;
+    this.highlight.style.height = `${size}px`;
+    this.highlight.style.left = `${result.screen.x}px`;
+    this.highlight.style.top = `${result.screen.y}px`;
+
+    this.tooltip.textContent = result.name;
+    this.tooltip.style.display = "block";
+    this.tooltip.style.left = `${result.screen.x}px`;
+    this.tooltip.style.top = `${result.screen.y - size / 2}px`;
+  };
+
+  /**
+   * @returns the body currently under the pointer, if any.
+   */
+  getHovered = (): PickResult | null => {
+    return this.hovered;
+  };
+
+  private createElement(className: string): HTMLElement {
+    const element = document.createElement("div");
+    element.className = className;
+    element.style.display = "none";
+    document.body.appendChild(element);
+    return element;
+  }
+}
@@ -4,6 +4,8 @@ import { createPath } from "./path";
 import { loadTexture } from "./textures";
 import { Label } from "./label";
 import { PointOfInterest } from "./label";
+import { Orbit, OrbitalElements, normaliseDistance } from "./orbit";
+import { SIMULATION_HOURS_PER_UNIT } from "../constants";
 
 export interface Body {
   name: string;
@@ -18,6 +20,7 @@ export interface Body {
   labels?: PointOfInterest[];
   traversable: boolean;
   offset?: number;
+  orbit?: OrbitalElements;
 }
 
 interface TexturePaths {
@@ -33,16 +36,12 @@ interface Atmosphere {
   alpha?: THREE.Texture;
 }
 
-const timeFactor = 8 * Math.PI * 2; // 1s real-time => 8h simulation time
+const timeFactor = SIMULATION_HOURS_PER_UNIT * Math.PI * 2; // 1s real-time => 8h simulation time
 
 const normaliseRadius = (radius: number): number => {
   return Math.sqrt(radius) / 500;
 };
 
-const normaliseDistance = (distance: number): number => {
-  return Math.pow(distance, 0.4);
-};
-
 const degreesToRadians = (degrees: number): number => {
   return (Math.PI * degrees) / 180;
 };
@@ -55,33 +54,46 @@ export class PlanetaryObject {
   orbits?: string;
   type: string;
   tilt: number; // degrees
+  group: THREE.Group; // non-rotating frame that follows the orbit
   mesh: THREE.Mesh;
   path?: THREE.Line;
-  rng: number;
+  orbit: Orbit;
   map: THREE.Texture;
   bumpMap?: THREE.Texture;
   specularMap?: THREE.Texture;
   atmosphere: Atmosphere = {};
   labels: Label;
 
-  constructor(body: Body) {
+  /**
+   * @param body - Physical and orbital description of the body.
+   * @param parent - Body this one orbits; circular orbits follow its equator.
+   */
+  constructor(body: Body, parent?: PlanetaryObject) {
     const { radius, distance, period, daylength, orbits, type, tilt } = body;
 
     this.radius = normaliseRadius(radius);
     this.distance = normaliseDistance(distance);
-    this.period = period;
+    this.period = body.orbit?.period ?? period;
     this.daylength = daylength;
     this.orbits = orbits;
     this.type = type;
     this.tilt = degreesToRadians(tilt);
-    this.rng = body.offset ?? Math.random() * 2 * Math.PI;
+    this.orbit = body.orbit
+      ? new Orbit(body.orbit)
+      : Orbit.circular(
+          distance,
+          body.offset ?? Math.random() * 2 * Math.PI,
+          parent?.tilt
+        );
 
     this.loadTextures(body.textures);
 
     this.mesh = this.createMesh();
+    this.group = new THREE.Group();
+    this.group.add(this.mesh);
 
     if (this.orbits) {
-      this.path = createPath(this.distance);
+      this.path = createPath(this.orbit);
     }
 
     if (this.atmosphere.map) {
@@ -131,7 +143,9 @@ export class PlanetaryObject {
    */
   private createMesh = () => {
     if (this.type === "ring") {
-      return createRingMesh(this.map);
+      const rings = createRingMesh(this.map);
+      rings.rotation.x += this.tilt;
+      return rings;
     }
 
     const geometry = new THREE.SphereGeometry(this.radius, 64, 64);
@@ -200,17 +214,16 @@ export class PlanetaryObject {
 
   /**
    * Updates orbital position and rotation.
-   * @param elapsedTime - number of seconds elapsed.
+   * @param elapsedTime - simulation time units elapsed since J2000.
    */
   tick = (elapsedTime: number) => {
     // Convert real-time seconds to rotation.
     const rotation = this.getRotation(elapsedTime);
-    const orbitRotation = this.getOrbitRotation(elapsedTime);
-    const orbit = orbitRotation + this.rng;
+    const meanMotion = this.getOrbitRotation(elapsedTime);
 
-    // Circular rotation around orbit.
-    this.mesh.position.x = Math.sin(orbit) * this.distance;
-    this.mesh.position.z = Math.cos(orbit) * this.distance;
+    // Keplerian position along the orbit.
+    this.orbit.precess((elapsedTime * SIMULATION_HOURS_PER_UNIT) / 24, this.path);
+    this.orbit.getPosition(meanMotion, this.group.position);
 
     if (this.type === "ring") {
       this.mesh.rotation.z = rotation;
@@ -219,6 +232,17 @@ export class PlanetaryObject {
     }
   };
 
+  /**
+   * Attaches an orbiting body, keeping it out of this body's spin.
+   * @param child - Body orbiting this one.
+   */
+  addSatellite = (child: PlanetaryObject) => {
+    this.group.add(child.group);
+    if (child.path) {
+      this.group.add(child.path);
+    }
+  };
+
   /**
    * @returns the minimum orbital control camera distance allowed.
    */
@@ -0,0 +1,267 @@
+import { CustomGestureData, isCustomGestureData } from "../hand-tracking/custom-gestures";
+import { GestureBindings, isGestureAction } from "../hand-tracking/gesture-bindings";
+import { CalibrationData } from "../hand-tracking/gesture-types";
+import { LANGUAGES } from "../voice/language";
+import { STT_PROVIDERS } from "../voice/sttProviders";
+import { easings } from "./camera-transition";
+import { options } from "./gui";
+import { getLocalStorage } from "./storage";
+
+const storageKey = "solar-system-settings";
+
+// Minimum time between writes to storage, in ms.
+const saveInterval = 1000;
+
+export const SETTINGS_VERSION = 3;
+
+// Options worth keeping between visits; focus is left to deep links.
+const persistedOptions = [
+  "showPaths",
+  "showMoons",
+  "showLabels",
+  "clock",
+  "reverse",
+  "speed",
+  "flyDuration",
+  "flyEasing",
+  "voiceEnabled",
+  "narrationEnabled",
+  "showCaptions",
+  "language",
+  "speakAnswers",
+  "speechVoice",
+  "speechRate",
+  "speechPitch",
+  "sttProvider",
+  "voiceStreaming",
+  "stopOnSilence",
+  "alwaysListening",
+  "wakePhrase",
+] as const;
+
+type PersistedOption = (typeof persistedOptions)[number];
+
+// Values allowed for options picked from a list, where the type alone says too little.
+const optionChoices: Partial<Record<PersistedOption, readonly unknown[]>> = {
+  flyEasing: Object.keys(easings),
+  language: Object.values(LANGUAGES),
+  sttProvider: Object.values(STT_PROVIDERS),
+};
+
+export interface HandSettings {
+  zoom: number;
+  yaw: number;
+  pitch: number;
+}
+
+export interface Settings {
+  version: number;
+  options: Pick<typeof options, PersistedOption>;
+  ambientIntensity: number;
+  hand: HandSettings;
+  calibration: CalibrationData;
+  gestures: GestureBindings;
+  customGestures: CustomGestureData[];
+}
+
+// Settings as read from storage, before anything in them is trusted.
+type StoredSettings = Record<string, unknown>;
+
+/**
+ * Upgrades stored settings one version at a time; entry `n` turns version `n`
+ * into version `n + 1`. Add an entry whenever the schema changes.
+ */
+const migrations: Record<number, (settings: StoredSettings) => StoredSettings> = {
+  // Version 2 binds gestures to actions; version 1 gestures did what the defaults do
+  1: (settings) => ({ ...settings, gestures: {} }),
+  // Version 3 keeps gestures trained by the user
+  2: (settings) => ({ ...settings, customGestures: [] }),
+};
+
+/**
+ * Copies the options kept between visits.
+ * @param current - Options to copy from, usually the live ones.
+ */
+export const pickPersistedOptions = (current: typeof options): Settings["options"] =>
+  Object.fromEntries(persistedOptions.map((key) => [key, current[key]])) as Settings["options"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isCalibration = (value: unknown): value is CalibrationData =>
+  isRecord(value) &&
+  ["neutralYaw", "neutralPitch", "neutralRoll", "handBaseline"].every(
+    (key) => isFiniteNumber(value[key])
+  );
+
+const isOptionValue = <K extends PersistedOption>(
+  key: K,
+  value: unknown,
+  defaults: Settings["options"]
+): value is Settings["options"][K] =>
+  typeof value === typeof defaults[key] && (optionChoices[key]?.includes(value) ?? true);
+
+const restoreOption = <K extends PersistedOption>(
+  key: K,
+  value: unknown,
+  target: Settings["options"]
+) => {
+  if (isOptionValue(key, value, target)) {
+    target[key] = value;
+  }
+};
+
+/**
+ * Fills anything missing, of the wrong type or not among its choices in stored
+ * settings from the defaults.
+ * @param stored - Settings read from storage, already migrated.
+ * @param defaults - Settings to fall back on.
+ */
+const sanitise = (stored: StoredSettings, defaults: Settings): Settings => {
+  const settings = structuredClone(defaults);
+
+  const storedOptions = isRecord(stored.options) ? stored.options : {};
+  for (const key of persistedOptions) {
+    restoreOption(key, storedOptions[key], settings.options);
+  }
+
+  if (isFiniteNumber(stored.ambientIntensity)) {
+    settings.ambientIntensity = stored.ambientIntensity;
+  }
+
+  const hand = isRecord(stored.hand) ? stored.hand : {};
+  for (const key of ["zoom", "yaw", "pitch"] as const) {
+    const value = hand[key];
+    if (isFiniteNumber(value)) {
+      settings.hand[key] = value;
+    }
+  }
+
+  if (isCalibration(stored.calibration)) {
+    settings.calibration = { ...stored.calibration };
+  }
+
+  if (Array.isArray(stored.customGestures)) {
+    settings.customGestures = stored.customGestures.filter(isCustomGestureData);
+  }
+
+  // Gestures not in the defaults are kept, for those the user trained
+  for (const [gesture, action] of Object.entries(isRecord(stored.gestures) ? stored.gestures : {})) {
+    if (isGestureAction(action)) {
+      settings.gestures[gesture] = action;
+    }
+  }
+
+  return settings;
+};
+
+export class SettingsStore {
+  private read: () => Settings;
+  private defaults: Settings;
+  private storage: Storage | null;
+  private lastSaved = "";
+  private lastSave = 0;
+
+  /**
+   * Keeps user settings in local storage between visits.
+   * @constructor
+   * @param read - Returns the current settings, at `SETTINGS_VERSION`.
+   * @param storage - Where settings are kept; defaults to local storage.
+   */
+  constructor(read: () => Settings, storage?: Storage) {
+    this.read = read;
+    this.defaults = structuredClone(read());
+    this.storage = storage ?? getLocalStorage();
+
+    window.addEventListener("pagehide", this.save);
+  }
+
+  /**
+   * @returns the settings in effect before anything was restored.
+   */
+  getDefaults = (): Settings => {
+    return structuredClone(this.defaults);
+  };
+
+  /**
+   * Reads stored settings, migrating them from older versions.
+   * @returns the stored settings, or null if there are none or they are unusable.
+   */
+  load = (): Settings | null => {
+    const raw = this.storage?.getItem(storageKey);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (!isRecord(parsed)) {
+        console.warn("[settings] Ignoring settings that are not an object");
+        return null;
+      }
+      let stored = parsed;
+      let version = Number(stored.version);
+      if (!Number.isInteger(version) || version > SETTINGS_VERSION) {
+        console.warn(`[settings] Ignoring settings with version ${stored.version}`);
+        return null;
+      }
+      while (version < SETTINGS_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+          console.warn(`[settings] No migration from version ${version}`);
+          return null;
+        }
+        stored = migrate(stored);
+        version++;
+      }
+
+      const settings = sanitise(stored, this.defaults);
+      this.lastSaved = JSON.stringify(settings);
+      return settings;
+    } catch (error) {
+      console.warn("[settings] Unable to read stored settings", error);
+      return null;
+    }
+  };
+
+  /**
+   * Saves the settings if they have changed, at most once a second.
+   */
+  update = () => {
+    const now = performance.now();
+    if (now - this.lastSave < saveInterval) {
+      return;
+    }
+    this.lastSave = now;
+    this.save();
+  };
+
+  /**
+   * Saves the settings immediately if they have changed.
+   */
+  save = () => {
+    const serialised = JSON.stringify(this.read());
+    if (serialised === this.lastSaved) {
+      return;
+    }
+    try {
+      this.storage?.setItem(storageKey, serialised);
+      this.lastSaved = serialised;
+    } catch (error) {
+      console.warn("[settings] Unable to save settings", error);
+    }
+  };
+
+  /**
+   * Forgets the stored settings.
+   * @returns the default settings, to be applied by the caller.
+   */
+  reset = (): Settings => {
+    this.storage?.removeItem(storageKey);
+    this.lastSaved = "";
+    return this.getDefaults();
+  };
+}
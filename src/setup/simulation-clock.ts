@@ -0,0 +1,126 @@
+import { SIMULATION_HOURS_PER_UNIT } from "../constants";
+import { eventBus } from "../voice/eventBus";
+
+export type TimeStepUnit = "hour" | "day" | "month" | "year";
+
+// J2000.0 epoch: 2000-01-01 12:00 TT, the reference date for orbital elements.
+export const J2000 = Date.UTC(2000, 0, 1, 12, 0, 0);
+
+const msPerUnit = SIMULATION_HOURS_PER_UNIT * 60 * 60 * 1000;
+
+export class SimulationClock {
+  private elapsedTime: number;
+
+  /**
+   * Simulation calendar anchored to a real UTC date.
+   * @constructor
+   * @param date - Starting date, defaults to now.
+   */
+  constructor(date: Date = new Date()) {
+    this.elapsedTime = this.toElapsedTime(date);
+  }
+
+  /**
+   * Advances the simulation.
+   * @param delta - Simulation time units to advance by, may be negative.
+   */
+  advance = (delta: number) => {
+    this.elapsedTime += delta;
+  };
+
+  /**
+   * @returns simulation time units elapsed since J2000.
+   */
+  getElapsedTime = (): number => {
+    return this.elapsedTime;
+  };
+
+  /**
+   * @returns the current simulated date.
+   */
+  getDate = (): Date => {
+    return new Date(J2000 + this.elapsedTime * msPerUnit);
+  };
+
+  /**
+   * Jumps the simulation to a given date.
+   * @param date - Date to jump to.
+   */
+  setDate = (date: Date) => {
+    if (Number.isNaN(date.getTime())) {
+      console.warn("[clock] Ignoring invalid date", date);
+      return;
+    }
+    const previous = this.getDate();
+    this.elapsedTime = this.toElapsedTime(date);
+    eventBus.emit("timeJump", { date: this.getDate(), previous });
+  };
+
+  /**
+   * Jumps the simulation by a calendar step.
+   * @param unit - Calendar unit to step by.
+   * @param count - Number of units, negative to step backwards.
+   */
+  step = (unit: TimeStepUnit, count: number) => {
+    const date = this.getDate();
+    switch (unit) {
+      case "hour":
+        date.setTime(date.getTime() + count * 60 * 60 * 1000);
+        break;
+      case "day":
+        date.setTime(date.getTime() + count * 24 * 60 * 60 * 1000);
+        break;
+      case "month":
+        date.setUTCMonth(date.getUTCMonth() + count);
+        break;
+      case "year":
+        date.setUTCFullYear(date.getUTCFullYear() + count);
+        break;
+    }
+    this.setDate(date);
+  };
+
+  private toElapsedTime = (date: Date): number => {
+    return (date.getTime() - J2000) / msPerUnit;
+  };
+}
+
+/**
+ * Formats a date for the HUD readout.
+ * @param date - Date to format.
+ * @returns date and time to the minute in UTC, e.g. "2024-05-01 13:45 UTC".
+ */
+export const formatSimulationDate = (date: Date): string => {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+};
+
+/**
+ * Parses a user-entered UTC date such as "1969-07-20" or "1969-07-20 20:17".
+ * @param value - Date string, ISO formats are also accepted.
+ * @returns parsed date, or null if the value is not a valid date.
+ */
+export const parseSimulationDate = (value: string): Date | null => {
+  const match = value
+    .trim()
+    .match(/^(-?\d{1,6})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+
+  if (!match) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const [year, month, day, hour, minute] = match.slice(1).map((part) => Number(part ?? 0));
+  const date = new Date(0);
+  // Date.UTC would read years 0-99 as 1900-1999
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute);
+
+  // Out-of-range parts such as month 13 or hour 27 roll over into another date
+  const exact =
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute;
+  return exact ? date : null;
+};
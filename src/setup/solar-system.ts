@@ -21,24 +21,21 @@ export const createSolarSystem = (
       planet.period = planet.daylength / solarSystem[planet.orbits].daylength;
     }
 
-    const object = new PlanetaryObject(planet);
+    const parent = planet.orbits ? solarSystem[planet.orbits] : undefined;
+    const object = new PlanetaryObject(planet, parent);
 
     solarSystem[name] = object;
 
     textureCount += Object.keys(planet.textures).length;
 
-    if (object.orbits) {
-      const parentMesh = solarSystem[object.orbits].mesh;
-      parentMesh.add(object.mesh);
-      object.path && parentMesh.add(object.path);
-    }
+    parent?.addSatellite(object);
 
     if (planet.traversable) {
       traversable.push(planet.name);
     }
   }
 
-  scene.add(solarSystem["Sun"].mesh);
+  scene.add(solarSystem["Sun"].group);
   setTextureCount(textureCount);
 
   return [solarSystem, traversable];
@@ -0,0 +1,11 @@
+/**
+ * @returns local storage, or null where it is disabled (e.g. some private
+ * browsing modes), which throws on access.
+ */
+export const getLocalStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,178 @@
+import { options } from "./gui";
+import {
+  SimulationClock,
+  TimeStepUnit,
+  formatSimulationDate,
+} from "./simulation-clock";
+
+const stepUnits: TimeStepUnit[] = ["hour", "day", "month", "year"];
+
+// Furthest a single scrub gesture can move, in days.
+const scrubRangeDays = 3650;
+const scrubResolution = 1000;
+
+export class Timeline {
+  private clock: SimulationClock;
+  private container: HTMLElement;
+  private dateLabel: HTMLElement;
+  private reverseButton: HTMLButtonElement;
+  private playButton: HTMLButtonElement;
+  private scrubber: HTMLInputElement;
+  private unit: TimeStepUnit = "day";
+  private scrubAnchor: number | null = null;
+
+  /**
+   * Timeline bar for playing, reversing, stepping and scrubbing simulated time.
+   * @constructor
+   * @param container - Element to render the timeline into.
+   * @param clock - Simulation clock driven by the timeline.
+   */
+  constructor(container: HTMLElement, clock: SimulationClock) {
+    this.clock = clock;
+    this.container = container;
+
+    this.reverseButton = this.createButton("◀", "Play in reverse", () => {
+      this.play(true);
+    });
+    this.playButton = this.createButton("▶", "Play", () => {
+      if (options.clock && !options.reverse) {
+        this.pause();
+      } else {
+        this.play(false);
+      }
+    });
+
+    const stepBack = this.createButton("«", "Step back", () => {
+      this.clock.step(this.unit, -1);
+    });
+    const stepForward = this.createButton("»", "Step forward", () => {
+      this.clock.step(this.unit, 1);
+    });
+
+    this.scrubber = this.createScrubber();
+    this.dateLabel = document.createElement("span");
+    this.dateLabel.className = "timeline-date";
+
+    const now = this.createButton("Now", "Jump to now", () => {
+      this.clock.setDate(new Date());
+    });
+
+    this.container.append(
+      this.reverseButton,
+      this.playButton,
+      stepBack,
+      this.createUnitSelect(),
+      stepForward,
+      this.scrubber,
+      this.dateLabel,
+      now
+    );
+    this.container.removeAttribute("hidden");
+    this.update();
+  }
+
+  /**
+   * Runs the simulation clock.
+   * @param reverse - Whether time should run backwards.
+   */
+  play = (reverse: boolean) => {
+    options.clock = true;
+    options.reverse = reverse;
+    this.update();
+  };
+
+  /**
+   * Pauses the simulation clock.
+   */
+  pause = () => {
+    options.clock = false;
+    this.update();
+  };
+
+  /**
+   * Refreshes the date readout and play state.
+   */
+  update = () => {
+    const text = formatSimulationDate(this.clock.getDate());
+    if (this.dateLabel.textContent !== text) {
+      this.dateLabel.textContent = text;
+    }
+
+    const forward = options.clock && !options.reverse;
+    const backward = options.clock && options.reverse;
+    this.playButton.textContent = forward ? "⏸" : "▶";
+    this.playButton.title = forward ? "Pause" : "Play";
+    this.playButton.classList.toggle("is-active", forward);
+    this.reverseButton.classList.toggle("is-active", backward);
+  };
+
+  private createButton(
+    text: string,
+    title: string,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = text;
+    button.title = title;
+    button.setAttribute("aria-label", title);
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private createUnitSelect(): HTMLSelectElement {
+    const select = document.createElement("select");
+    select.title = "Step size";
+    for (const unit of stepUnits) {
+      const option = document.createElement("option");
+      option.value = unit;
+      option.textContent = unit;
+      option.selected = unit === this.unit;
+      select.appendChild(option);
+    }
+    select.addEventListener("change", () => {
+      this.unit = select.value as TimeStepUnit;
+    });
+    return select;
+  }
+
+  /**
+   * Creates a spring-loaded scrubber: dragging away from the centre, or holding an
+   * arrow key, moves time relative to where it began, and releasing snaps it back.
+   */
+  private createScrubber(): HTMLInputElement {
+    const scrubber = document.createElement("input");
+    scrubber.type = "range";
+    scrubber.className = "timeline-scrubber";
+    scrubber.title = "Scrub through time";
+    scrubber.min = String(-scrubResolution);
+    scrubber.max = String(scrubResolution);
+    scrubber.value = "0";
+
+    scrubber.addEventListener("input", () => {
+      if (this.scrubAnchor === null) {
+        this.scrubAnchor = this.clock.getDate().getTime();
+      }
+      // Cubic response gives fine control near the centre.
+      const position = Number(scrubber.value) / scrubResolution;
+      const days = Math.pow(position, 3) * scrubRangeDays;
+      this.clock.setDate(new Date(this.scrubAnchor + days * 86400000));
+    });
+
+    // Snap back on release rather than on "change", which arrow keys fire at
+    // every step, so a held key keeps moving further from the anchor.
+    const release = () => {
+      if (this.scrubAnchor === null) {
+        return;
+      }
+      this.scrubAnchor = null;
+      scrubber.value = "0";
+    };
+    // On the window, as the pointer may be released off the scrubber
+    window.addEventListener("pointerup", release);
+    window.addEventListener("pointercancel", release);
+    scrubber.addEventListener("blur", release);
+
+    return scrubber;
+  }
+}
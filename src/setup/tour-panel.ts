@@ -0,0 +1,108 @@
+import { TOURS, TourEngine, TourState } from "./tour";
+
+export class TourPanel {
+  private engine: TourEngine;
+  private container: HTMLElement;
+  private launcher: HTMLElement;
+  private player: HTMLElement;
+  private title: HTMLElement;
+  private progress: HTMLElement;
+  private text: HTMLElement;
+  private pauseButton: HTMLButtonElement;
+
+  /**
+   * Panel for starting a tour and pausing, skipping or leaving it.
+   * @constructor
+   * @param container - Element to render the panel into.
+   * @param engine - Tour engine the panel controls.
+   */
+  constructor(container: HTMLElement, engine: TourEngine) {
+    this.engine = engine;
+    this.container = container;
+
+    // Tour picker, shown when no tour is running
+    const select = document.createElement("select");
+    select.title = "Tour";
+    for (const tour of TOURS) {
+      const option = document.createElement("option");
+      option.value = tour.id;
+      option.textContent = tour.title;
+      select.appendChild(option);
+    }
+    this.launcher = document.createElement("div");
+    this.launcher.className = "tour-launcher";
+    this.launcher.append(
+      select,
+      this.createButton("Start tour", "Start tour", () => {
+        this.engine.start(select.value);
+      })
+    );
+
+    // Stop details and controls, shown during a tour
+    this.title = this.createText("tour-title");
+    this.progress = this.createText("tour-progress");
+    this.text = this.createText("tour-text");
+    this.pauseButton = this.createButton("⏸", "Pause tour", () => {
+      const state = this.engine.getState();
+      state?.paused ? this.engine.resume() : this.engine.pause();
+    });
+
+    const controls = document.createElement("div");
+    controls.className = "tour-controls";
+    controls.append(
+      this.createButton("«", "Previous stop", this.engine.previous),
+      this.pauseButton,
+      this.createButton("»", "Next stop", this.engine.next),
+      this.createButton("✕", "End tour", this.engine.stop)
+    );
+
+    this.player = document.createElement("div");
+    this.player.append(this.title, this.progress, this.text, controls);
+
+    this.container.append(this.launcher, this.player);
+    this.container.removeAttribute("hidden");
+
+    this.engine.onChange(this.render);
+    this.render(this.engine.getState());
+  }
+
+  private render = (state: TourState | null) => {
+    this.launcher.hidden = state !== null;
+    this.player.hidden = state === null;
+    this.container.classList.toggle("is-active", state !== null);
+    if (!state) {
+      return;
+    }
+
+    const { tour, index, stop, paused, remaining } = state;
+    this.title.textContent = tour.title;
+    this.progress.textContent = `Stop ${index + 1} of ${tour.stops.length} · ${stop.focus}${
+      paused ? " · paused" : ` · ${Math.ceil(remaining)}s`
+    }`;
+    this.text.textContent = stop.text ?? "";
+    this.text.hidden = !stop.text;
+    this.pauseButton.textContent = paused ? "▶" : "⏸";
+    this.pauseButton.title = paused ? "Resume tour" : "Pause tour";
+    this.pauseButton.setAttribute("aria-label", this.pauseButton.title);
+  };
+
+  private createText(className: string): HTMLElement {
+    const element = document.createElement("p");
+    element.className = className;
+    return element;
+  }
+
+  private createButton(
+    text: string,
+    title: string,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = text;
+    button.title = title;
+    button.setAttribute("aria-label", title);
+    button.addEventListener("click", onClick);
+    return button;
+  }
+}
@@ -0,0 +1,271 @@
+import grandTour from "../tours/grand-tour.json";
+import solarEclipse2024 from "../tours/solar-eclipse-2024.json";
+import { VoiceCoreEvents, eventBus } from "../voice/eventBus";
+import { PlanetNarrator } from "../voice/planetNarrator";
+import { options } from "./gui";
+import { SimulationClock, parseSimulationDate } from "./simulation-clock";
+
+// Dwell used for stops that do not give one, in seconds.
+const defaultDwell = 20;
+
+export interface CameraAngle {
+  distance: number; // multiples of the body's minimum viewing distance
+  polar: number; // degrees from the body's north pole
+  azimuth: number; // degrees around the body's axis
+}
+
+export interface TourStop {
+  focus: string;
+  camera?: CameraAngle;
+  date?: string; // UTC, "YYYY-MM-DD HH:mm" or ISO
+  speed?: number;
+  dwell?: number; // seconds
+  narration?: string; // narration-data.json entry to play
+  text?: string; // shown on screen
+}
+
+export interface Tour {
+  id: string;
+  title: string;
+  stops: TourStop[];
+}
+
+export type TourAction = VoiceCoreEvents["tourCommand"]["action"];
+
+export const TOURS: Tour[] = [grandTour, solarEclipse2024];
+
+export interface TourState {
+  tour: Tour;
+  index: number;
+  stop: TourStop;
+  paused: boolean;
+  remaining: number; // seconds left at this stop
+}
+
+export class TourEngine {
+  private clock: SimulationClock;
+  private narrator: PlanetNarrator;
+  private setFocus: (focus: string, camera?: CameraAngle) => void;
+  private tour: Tour | null = null;
+  private index = 0;
+  private remaining = 0;
+  private paused = false;
+  private lastUpdate: number | null = null; // when the countdown last moved, from performance.now()
+  private narrationPending = false; // stop reached whilst paused
+  private listeners = new Set<(state: TourState | null) => void>();
+
+  /**
+   * Plays scripted tours, moving through their stops after each stop's dwell time.
+   * @constructor
+   * @param clock - Simulation clock set at each stop.
+   * @param narrator - Narrator for stops with a narration clip.
+   * @param setFocus - Focuses a body, optionally from a given camera angle.
+   */
+  constructor(
+    clock: SimulationClock,
+    narrator: PlanetNarrator,
+    setFocus: (focus: string, camera?: CameraAngle) => void
+  ) {
+    this.clock = clock;
+    this.narrator = narrator;
+    this.setFocus = setFocus;
+
+    eventBus.on("tourCommand", ({ action }) => {
+      this.command(action);
+    });
+  }
+
+  /**
+   * Starts a tour from its first stop, ending any tour already running.
+   * @param id - Id of a tour in `TOURS`.
+   */
+  start = (id: string) => {
+    const tour = TOURS.find((tour) => tour.id === id);
+    if (!tour || tour.stops.length === 0) {
+      console.warn(`[tour] Unknown or empty tour: ${id}`);
+      return;
+    }
+    this.tour = tour;
+    this.paused = false;
+    this.goTo(0);
+  };
+
+  /**
+   * Ends the current tour.
+   */
+  stop = () => {
+    if (!this.tour) {
+      return;
+    }
+    this.narrator.stop();
+    this.tour = null;
+    this.notify();
+  };
+
+  /**
+   * Moves to the next stop, ending the tour after the last one.
+   */
+  next = () => {
+    if (!this.tour) {
+      return;
+    }
+    if (this.index + 1 >= this.tour.stops.length) {
+      this.stop();
+      return;
+    }
+    this.goTo(this.index + 1);
+  };
+
+  /**
+   * Moves back to the previous stop, or replays the first.
+   */
+  previous = () => {
+    if (this.tour) {
+      this.goTo(Math.max(0, this.index - 1));
+    }
+  };
+
+  /**
+   * Holds the tour at the current stop.
+   */
+  pause = () => {
+    if (!this.tour || this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.narrator.pause();
+    this.notify();
+  };
+
+  /**
+   * Continues a paused tour.
+   */
+  resume = () => {
+    if (!this.tour || !this.paused) {
+      return;
+    }
+    this.paused = false;
+    const stop = this.tour.stops[this.index];
+    if (this.narrationPending && stop.narration) {
+      this.narrator.play(stop.narration);
+    } else {
+      this.narrator.resume();
+    }
+    this.narrationPending = false;
+    this.notify();
+  };
+
+  /**
+   * Applies a tour action, as sent by voice or gesture.
+   * @param action - What to do.
+   */
+  command = (action: TourAction) => {
+    switch (action) {
+      case "next":
+        this.next();
+        break;
+      case "previous":
+        this.previous();
+        break;
+      case "pause":
+        this.pause();
+        break;
+      case "resume":
+        this.resume();
+        break;
+      case "stop":
+        this.stop();
+        break;
+    }
+  };
+
+  /**
+   * Counts down the dwell time at the current stop, in real time so that tours
+   * carry on whilst the simulation is paused.
+   * @param now - Current time from performance.now().
+   */
+  update = (now: number) => {
+    if (!this.tour || this.paused) {
+      this.lastUpdate = null;
+      return;
+    }
+    const deltaTime = this.lastUpdate === null ? 0 : (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+    const before = Math.ceil(this.remaining);
+    this.remaining -= deltaTime;
+    if (this.remaining <= 0) {
+      this.next();
+    } else if (Math.ceil(this.remaining) !== before) {
+      this.notify();
+    }
+  };
+
+  /**
+   * @returns whether a tour is running, paused or not.
+   */
+  isActive = (): boolean => {
+    return this.tour !== null;
+  };
+
+  /**
+   * @returns the current tour and stop, or null when no tour is running.
+   */
+  getState = (): TourState | null => {
+    if (!this.tour) {
+      return null;
+    }
+    return {
+      tour: this.tour,
+      index: this.index,
+      stop: this.tour.stops[this.index],
+      paused: this.paused,
+      remaining: Math.max(0, this.remaining),
+    };
+  };
+
+  /**
+   * Calls a listener whenever the tour, stop, pause state or countdown changes.
+   * @param listener - Called with the new state, or null when the tour ends.
+   * @returns a function that removes the listener.
+   */
+  onChange = (listener: (state: TourState | null) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  private goTo = (index: number) => {
+    if (!this.tour) {
+      return;
+    }
+    const stop = this.tour.stops[index];
+    this.index = index;
+    this.remaining = stop.dwell ?? defaultDwell;
+
+    const date = stop.date ? parseSimulationDate(stop.date) : null;
+    if (date) {
+      this.clock.setDate(date);
+    } else if (stop.date) {
+      console.warn(`[tour] Invalid date for stop ${index}: ${stop.date}`);
+    }
+    if (stop.speed !== undefined && stop.speed > 0) {
+      options.speed = stop.speed;
+    }
+
+    this.setFocus(stop.focus, stop.camera);
+
+    this.narrator.stop();
+    this.narrationPending = !!stop.narration && this.paused;
+    if (stop.narration && !this.paused) {
+      this.narrator.play(stop.narration);
+    }
+
+    this.notify();
+  };
+
+  private notify = () => {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  };
+}
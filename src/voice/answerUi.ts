@@ -0,0 +1,42 @@
+import { LanguageCode } from "./language";
+import { SpeechSynth } from "./speech";
+
+export class AnswerUI {
+  private current: SpeechSynthesisUtterance | null = null;
+
+  /**
+   * Shows answers to spoken questions, and reads them aloud when asked to.
+   * @constructor
+   * @param element - Element the answer is written into.
+   * @param speech - Reads answers aloud, with the voice chosen in the settings.
+   */
+  constructor(
+    private element: HTMLElement | null,
+    private speech: SpeechSynth
+  ) {}
+
+  /**
+   * Replaces the current answer.
+   * @param text - Answer to show.
+   * @param speak - Whether to read the answer aloud as well.
+   * @param language - Language the answer is worded in.
+   */
+  show = (text: string, speak: boolean, language: LanguageCode) => {
+    if (this.element) {
+      this.element.textContent = text;
+      this.element.hidden = false;
+    }
+    this.stopSpeaking();
+    if (speak) {
+      this.current = this.speech.speak(text, language);
+    }
+  };
+
+  /**
+   * Stops reading the current answer aloud.
+   */
+  stopSpeaking = () => {
+    this.speech.stop(this.current);
+    this.current = null;
+  };
+}
@@ -0,0 +1,270 @@
+import { DEFAULT_LANGUAGE, audioPath } from "./language";
+import { narrationText } from "./narrationText";
+import { NarrationPlayback, PlanetNarrator } from "./planetNarrator";
+
+type CaptionWord = {
+  text: string;
+  start: number; // seconds into the narration
+  end: number;
+  offset: number; // index of its first character in the text, for speech boundaries
+};
+
+// Timing written next to a clip by server/generate-planet-narrations.js.
+type CaptionTiming = {
+  words: { text: string; start: number; end: number }[];
+};
+
+// Speaking pace assumed when there is nothing to time words by, in characters a second.
+const ESTIMATED_PACE = 14;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isTimedWord = (value: unknown): value is CaptionTiming["words"][number] =>
+  isRecord(value) &&
+  typeof value.text === "string" &&
+  typeof value.start === "number" &&
+  Number.isFinite(value.start) &&
+  typeof value.end === "number" &&
+  Number.isFinite(value.end);
+
+const isTiming = (value: unknown): value is CaptionTiming =>
+  isRecord(value) && Array.isArray(value.words) && value.words.length > 0 && value.words.every(isTimedWord);
+
+/**
+ * Spreads words evenly over a duration, giving each time for its length, so
+ * sentences are shown for about as long as they take to say.
+ * @param text - Text narrated.
+ * @param duration - Length of the narration, in seconds.
+ */
+const evenlyPaced = (text: string, duration: number): CaptionWord[] => {
+  const words = Array.from(text.matchAll(/\S+/g), (match) => ({ text: match[0], offset: match.index ?? 0 }));
+  const weight = (word: string) => word.length + 1 + (/[.!?]$/.test(word) ? 4 : 0);
+  const total = words.reduce((sum, word) => sum + weight(word.text), 0);
+  let start = 0;
+  return words.map((word) => {
+    const end = start + (weight(word.text) / total) * duration;
+    const timed = { ...word, start, end };
+    start = end;
+    return timed;
+  });
+};
+
+/**
+ * Gives timed words character offsets into the text they were said from.
+ */
+const withOffsets = (timing: CaptionTiming): CaptionWord[] => {
+  let offset = 0;
+  return timing.words.map((word) => {
+    const timed = { ...word, offset };
+    offset += word.text.length + 1;
+    return timed;
+  });
+};
+
+/**
+ * Splits words into sentences, as runs of word indices.
+ */
+const sentencesOf = (words: CaptionWord[]): number[][] => {
+  const sentences: number[][] = [[]];
+  words.forEach((word, index) => {
+    sentences[sentences.length - 1].push(index);
+    if (/[.!?]["”»)]?$/.test(word.text) && index < words.length - 1) {
+      sentences.push([]);
+    }
+  });
+  return sentences;
+};
+
+export class CaptionUI {
+  private enabled = true;
+  private playback: NarrationPlayback | null = null;
+  private words: CaptionWord[] = [];
+  private sentences: number[][] = [];
+  private sentence = -1;
+  private spans: HTMLSpanElement[] = [];
+  private frame: number | null = null;
+  private spokenAt = 0; // when speech started, in ms
+  private boundary: number | null = null; // character reached by speech, where the browser says
+  private detach: (() => void) | null = null; // stops listening to the clip followed
+  private readonly timings = new Map<string, Promise<CaptionTiming | null>>();
+
+  /**
+   * Captions narration a sentence at a time, highlighting each word as it is said.
+   * Words are timed by the sidecar JSON next to a clip where there is one, by the
+   * browser's word boundaries for speech, and evenly otherwise.
+   * @constructor
+   * @param element - Element captions are written into.
+   * @param narrator - Narrator whose narration is captioned.
+   */
+  constructor(
+    private element: HTMLElement | null,
+    narrator: PlanetNarrator
+  ) {
+    narrator.onChange(this.follow);
+  }
+
+  /**
+   * Shows or hides captions.
+   * @param enabled - Whether to caption narration.
+   */
+  setEnabled = (enabled: boolean) => {
+    this.enabled = enabled;
+    this.render();
+  };
+
+  private follow = (playback: NarrationPlayback | null) => {
+    this.playback = playback;
+    this.words = [];
+    this.sentences = [];
+    this.sentence = -1;
+    this.boundary = null;
+    this.detach?.();
+    this.detach = null;
+    if (!playback) {
+      this.stopLoop();
+      this.render();
+      return;
+    }
+
+    if (playback.kind === "speech") {
+      this.spokenAt = performance.now();
+      const { utterance } = playback;
+      utterance.addEventListener("start", () => {
+        this.spokenAt = performance.now();
+      });
+      utterance.addEventListener("boundary", (event) => {
+        if (event.name === "word") {
+          this.boundary = event.charIndex;
+        }
+      });
+      // Timed by pace until the browser reports word boundaries
+      const duration = playback.text.length / (ESTIMATED_PACE * (utterance.rate || 1));
+      this.setWords(evenlyPaced(playback.text, duration));
+    } else {
+      const { audio } = playback;
+      const load = () => this.loadClip(playback);
+      // Duration, and whether an English clip stands in, are known once metadata loads
+      if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        load();
+      }
+      audio.addEventListener("loadedmetadata", load);
+      this.detach = () => audio.removeEventListener("loadedmetadata", load);
+    }
+    this.startLoop();
+  };
+
+  private async loadClip(playback: NarrationPlayback & { kind: "clip" }): Promise<void> {
+    const { audio, file, name } = playback;
+    const language =
+      new URL(audio.currentSrc || audio.src, window.location.href).pathname === audioPath(file, playback.language)
+        ? playback.language
+        : DEFAULT_LANGUAGE;
+    const timing = await this.loadTiming(audioPath(file.replace(/\.mp3$/, ".json"), language));
+    if (this.playback !== playback) {
+      return;
+    }
+    if (timing) {
+      this.setWords(withOffsets(timing));
+      return;
+    }
+    const narration = narrationText(name, language);
+    const duration = Number.isFinite(audio.duration) ? audio.duration : 0;
+    if (narration && duration > 0) {
+      this.setWords(evenlyPaced(narration.text, duration));
+    }
+  }
+
+  private loadTiming(url: string): Promise<CaptionTiming | null> {
+    let timing = this.timings.get(url);
+    if (!timing) {
+      timing = fetch(url)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => (isTiming(data) ? data : null))
+        .catch(() => null);
+      this.timings.set(url, timing);
+    }
+    return timing;
+  }
+
+  private setWords(words: CaptionWord[]): void {
+    this.words = words;
+    this.sentences = sentencesOf(words);
+    this.sentence = -1;
+  }
+
+  private startLoop(): void {
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private stopLoop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  private tick = () => {
+    this.frame = requestAnimationFrame(this.tick);
+    this.render();
+  };
+
+  // Index of the word being said, or -1 before the first.
+  private currentWord(): number {
+    const playback = this.playback;
+    if (!playback || this.words.length === 0) {
+      return -1;
+    }
+    if (playback.kind === "speech" && this.boundary !== null) {
+      const boundary = this.boundary;
+      return this.lastWord((word) => word.offset <= boundary);
+    }
+    const time =
+      playback.kind === "clip" ? playback.audio.currentTime : (performance.now() - this.spokenAt) / 1000;
+    return this.lastWord((word) => word.start <= time);
+  }
+
+  private lastWord(reached: (word: CaptionWord) => boolean): number {
+    for (let index = this.words.length - 1; index >= 0; index--) {
+      if (reached(this.words[index])) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private render(): void {
+    if (!this.element) {
+      return;
+    }
+    const current = this.currentWord();
+    if (!this.enabled || current < 0) {
+      this.element.hidden = true;
+      this.sentence = -1;
+      return;
+    }
+    this.element.hidden = false;
+
+    const sentence = this.sentences.findIndex((indices) => indices.includes(current));
+    if (sentence !== this.sentence) {
+      this.sentence = sentence;
+      const indices = this.sentences[sentence] ?? [];
+      this.spans = indices.map((index) => {
+        const span = document.createElement("span");
+        span.textContent = this.words[index].text;
+        span.dataset.word = String(index);
+        return span;
+      });
+      this.element.replaceChildren(
+        ...this.spans.flatMap((span, position) => (position === 0 ? [span] : [" ", span]))
+      );
+    }
+    for (const span of this.spans) {
+      const index = Number(span.dataset.word);
+      span.classList.toggle("is-current", index === current);
+      span.classList.toggle("is-spoken", index < current);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import type { FingerGesture } from "../hand-tracking/gesture-types";
+import { eventBus } from "./eventBus";
+
+// Gestures that pick each choice in turn, and the one that picks none.
+const CHOICE_GESTURES: { gesture: FingerGesture; icon: string }[] = [
+  { gesture: "one_finger", icon: "☝️" },
+  { gesture: "two_fingers", icon: "✌️" },
+  { gesture: "three_fingers", icon: "🤟" },
+];
+const NONE_GESTURE: { gesture: FingerGesture; icon: string } = { gesture: "open_palm", icon: "🖐️" };
+
+// How long a question waits for an answer, in ms.
+const CHOICE_TIMEOUT = 15000;
+
+export class ChoiceUI {
+  private question: HTMLElement;
+  private buttons: HTMLElement;
+  private settle: ((index: number) => void) | null = null;
+  private choices = 0;
+  private timer: number | null = null;
+
+  /**
+   * Asks the user to pick between a few options, e.g. "Did you mean Mars or Moon?".
+   * Choices can be clicked, or picked by holding up one, two or three fingers; an
+   * open palm picks none. Spoken answers are passed in through `choose`.
+   * @constructor
+   * @param element - Element the question and its choices are shown in.
+   */
+  constructor(private element: HTMLElement | null) {
+    this.question = document.createElement("p");
+    this.question.className = "voice-choices-question";
+    this.buttons = document.createElement("div");
+    this.buttons.className = "voice-choices-buttons";
+    this.element?.append(this.question, this.buttons);
+
+    eventBus.on("fingerGestureHeld", ({ gesture }) => {
+      if (!this.isOpen()) {
+        return;
+      }
+      if (gesture === NONE_GESTURE.gesture) {
+        this.choose(-1);
+        return;
+      }
+      const index = CHOICE_GESTURES.findIndex((choice) => choice.gesture === gesture);
+      if (index >= 0 && index < this.choices) {
+        this.choose(index);
+      }
+    });
+  }
+
+  /**
+   * @returns whether a question is waiting for an answer.
+   */
+  isOpen = (): boolean => {
+    return this.settle !== null;
+  };
+
+  /**
+   * Shows a question, replacing any still open, which then gets no answer.
+   * @param question - Question to ask.
+   * @param choices - Up to three options, in order.
+   * @param noneLabel - Label of the option that picks none of them.
+   * @returns the index of the choice picked, or -1 if none was.
+   */
+  ask = (question: string, choices: string[], noneLabel = "Neither"): Promise<number> => {
+    this.choose(-1);
+    const offered = choices.slice(0, CHOICE_GESTURES.length);
+    this.choices = offered.length;
+    this.question.textContent = question;
+    this.buttons.replaceChildren(
+      ...offered.map((choice, index) =>
+        this.createButton(`${CHOICE_GESTURES[index].icon} ${choice}`, () => this.choose(index))
+      ),
+      this.createButton(`${NONE_GESTURE.icon} ${noneLabel}`, () => this.choose(-1))
+    );
+    if (this.element) {
+      this.element.hidden = false;
+    }
+    eventBus.emit("gestureCapture", { active: true });
+    this.timer = window.setTimeout(() => this.choose(-1), CHOICE_TIMEOUT);
+
+    return new Promise((resolve) => {
+      this.settle = resolve;
+    });
+  };
+
+  /**
+   * Answers the open question, if there is one.
+   * @param index - Index of the choice picked, or -1 for none.
+   */
+  choose = (index: number) => {
+    const settle = this.settle;
+    if (!settle) {
+      return;
+    }
+    this.settle = null;
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.element) {
+      this.element.hidden = true;
+    }
+    eventBus.emit("gestureCapture", { active: false });
+    settle(index);
+  };
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = text;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+}
@@ -1,3 +1,7 @@
+import type { OneShotGestureAction } from "../hand-tracking/gesture-bindings";
+import type { RecognizedGesture } from "../hand-tracking/gesture-types";
+import type { LanguageCode } from "./language";
+
 type VoiceCoreEvents = {
   focusChanged: {
     current: string;
@@ -9,6 +13,13 @@ type VoiceCoreEvents = {
     final: boolean;
   };
   voiceCommand: VoiceIntentEvent;
+  voiceHeard: {
+    // A final transcript and what was made of it
+    transcript: string;
+    intent: VoiceIntentEvent | null; // null when not understood or when answering a question
+    summary: string; // status shown for it, e.g. "Opening Mars"
+    latencyMs: number | null; // from the end of the utterance to its transcript, where known
+  };
   voiceError: {
     message: string;
     context?: unknown;
@@ -19,42 +30,133 @@ type VoiceCoreEvents = {
   voiceListenToggle: {
     // Toggle current listening state (start/stop recording)
   };
+  voiceListeningChanged: {
+    listening: boolean;
+  };
+  wakeWordToggle: {
+    enabled: boolean;
+  };
+  wakeWordArmed: {
+    armed: boolean;
+    phrase: string;
+    error?: string; // why listening could not start or stopped
+  };
+  wakeWordDetected: {
+    phrase: string;
+    command: string; // anything said after the phrase, e.g. "open Mars"
+  };
   narrationToggle: {
     enabled: boolean;
   };
+  captionsToggle: {
+    enabled: boolean;
+  };
+  languageChanged: {
+    language: LanguageCode;
+  };
+  gestureCapture: {
+    // Something on screen is waiting for a gesture answer; finger gestures go to
+    // it rather than to the camera while this is on
+    active: boolean;
+  };
+  fingerGestureHeld: {
+    gesture: RecognizedGesture;
+  };
+  gestureRecording: {
+    // Progress recording samples of a gesture the user is training
+    name: string;
+    recorded: number;
+    total: number;
+    done: boolean;
+    saved: boolean; // when done, whether enough samples were recorded to keep the gesture
+  };
+  gestureAction: {
+    // A one-off action bound to a gesture, for the app to carry out
+    action: OneShotGestureAction;
+  };
+  tourCommand: {
+    action: "next" | "previous" | "pause" | "resume" | "stop";
+  };
+  timeJump: {
+    // Simulated date after and before a discontinuous time change
+    date: Date;
+    previous: Date;
+  };
 };
 
 export type VoiceIntentEvent =
   | {
       type: "open";
       target: string;
+      spoken?: string; // words taken as the body, e.g. "mars" in "go to mars"
+      alternatives?: string[]; // other bodies that matched nearly as well, best first
       confidence: number;
       transcript: string;
       normalized: string;
     }
   | {
       type: "next";
+      confidence: number;
       transcript: string;
       normalized: string;
     }
   | {
       type: "previous";
+      confidence: number;
       transcript: string;
       normalized: string;
     }
   | {
       type: "repeat";
+      confidence: number;
       transcript: string;
       normalized: string;
     }
   | {
       type: "stop";
+      confidence: number;
+      transcript: string;
+      normalized: string;
+    }
+  | {
+      type: "clock";
+      action: "play" | "pause" | "reverse" | "faster" | "slower" | "speed";
+      value?: number; // simulation speed, for "speed"
+      confidence: number;
+      transcript: string;
+      normalized: string;
+    }
+  | {
+      type: "toggle";
+      target: "paths" | "labels" | "moons" | "ambient";
+      value?: boolean; // omitted to flip the current state
+      confidence: number;
+      transcript: string;
+      normalized: string;
+    }
+  | {
+      type: "zoom";
+      direction: "in" | "out";
+      confidence: number;
       transcript: string;
       normalized: string;
     }
   | {
       type: "narrate";
-      target: string;
+      target: string; // empty for the body in focus
+      spoken?: string;
+      alternatives?: string[];
+      confidence: number;
+      transcript: string;
+      normalized: string;
+    }
+  | {
+      type: "query";
+      field: "radius" | "distance" | "period" | "daylength" | "tilt" | "parent";
+      target: string; // empty for the body in focus
+      other?: string; // second body, for comparisons
+      comparison?: "greater" | "less"; // which way the question leans, e.g. "bigger"
+      confidence: number;
       transcript: string;
       normalized: string;
     };
@@ -0,0 +1,757 @@
+import type { VoiceIntentEvent } from "./eventBus";
+import { FRENCH_GRAMMAR } from "./locales/fr.ts";
+import { SPANISH_GRAMMAR } from "./locales/es.ts";
+
+// The voice command grammar, shared by the client and server/stt-proxy.js so both
+// classify a transcript the same way. Node loads this file by stripping its types,
+// so it uses no TypeScript-only syntax such as enums or parameter properties and
+// imports modules with their extension. The only runtime imports are the locale
+// packs, which Node loads the same way: they must keep to the same rules and use
+// no browser APIs.
+
+export type IntentFields<T> = T extends VoiceIntentEvent ? Omit<T, "confidence" | "transcript" | "normalized"> : never;
+
+export type QueryField = Extract<VoiceIntentEvent, { type: "query" }>["field"];
+
+// Transcripts are lowercased and stripped of accents before matching, so every
+// phrase, pattern and alias in a grammar is written that way too: "que tan grande",
+// not "qué tan grande".
+export interface IntentGrammar {
+  // Phrases that introduce a body, e.g. "take me to Mars"
+  targetPhrases: { narrate: string[]; open: string[] };
+  // Phrases that make up a whole command, e.g. "go back" or "show orbits"
+  commands: { intent: IntentFields<VoiceIntentEvent>; phrases: string[] }[];
+  // "set speed to five"; the first group is the number
+  speedPatterns: RegExp[];
+  numberWords: Record<string, number>;
+  numberJoiners: string[]; // ignored between number words, e.g. "and" in "two and a half"
+  decimalPoint: string; // e.g. "point" in "one point five"
+  // Questions about the planet data, checked in order, e.g. "how big is Jupiter"
+  queryFields: { field: QueryField; pattern: RegExp }[];
+  // Which way a comparison leans, e.g. "is Venus smaller than Earth"
+  comparatives: Record<string, "greater" | "less">;
+  // Questions start like this when they ask about the body in focus, e.g. "how big is it"
+  questionStart: RegExp;
+  // Words before a body that make it a point of reference, e.g. "from the Sun"
+  referenceWords: string[];
+  articles: string[];
+  // Elided words split from the word they precede, e.g. "l'" in "l'orbite"; phrases
+  // are written split as well ("parle moi d' uranus")
+  elisions: string[];
+  // Words around a command that do not change its meaning
+  fillerWords: string[];
+  // Words around a body name that do not change it
+  courtesyWords: string[];
+  // Targets that mean "the body in focus", e.g. "tell me about it"
+  currentTargets: string[];
+  // Answers to "Did you mean Mars or Moon?": yes takes the first choice, no takes
+  // none, and ordinals pick by position ("the second one")
+  choiceWords: { yes: string[]; no: string[]; ordinals: string[][] };
+  // Other names for bodies, by body name
+  bodyAliases: Record<string, string[]>;
+}
+
+export const ENGLISH_GRAMMAR: IntentGrammar = {
+  targetPhrases: {
+    narrate: [
+      "tell me more about",
+      "tell me about",
+      "talk about",
+      "narrate",
+      "describe",
+      "explain",
+      "what is",
+      "what's",
+    ],
+    open: [
+      "open",
+      "go to",
+      "goto",
+      "show",
+      "focus on",
+      "focus",
+      "move to",
+      "move toward",
+      "move over to",
+      "bring me to",
+      "take me to",
+      "fly to",
+      "head to",
+      "go back to",
+      "back to",
+      "visit",
+    ],
+  },
+  commands: [
+    {
+      intent: { type: "next" },
+      phrases: ["next", "next one", "next planet", "next stop", "go forward", "forward", "skip", "move on", "keep going", "continue"],
+    },
+    {
+      intent: { type: "previous" },
+      phrases: ["previous", "previous one", "previous planet", "previous stop", "go back", "back", "last one", "before that"],
+    },
+    {
+      intent: { type: "repeat" },
+      phrases: ["repeat", "repeat that", "say that again", "say again", "again", "one more time", "come again", "what did you say", "pardon"],
+    },
+    {
+      intent: { type: "stop" },
+      phrases: ["stop", "stop talking", "be quiet", "quiet", "silence", "hush", "shut up", "enough", "that's enough", "cancel"],
+    },
+    {
+      intent: { type: "clock", action: "faster" },
+      phrases: ["speed up", "speed it up", "faster", "go faster", "increase speed", "more speed"],
+    },
+    {
+      intent: { type: "clock", action: "slower" },
+      phrases: ["slow down", "slow it down", "slower", "go slower", "decrease speed", "less speed"],
+    },
+    {
+      intent: { type: "clock", action: "pause" },
+      phrases: ["pause", "pause time", "freeze", "freeze time", "stop time", "stop the clock", "stop the simulation"],
+    },
+    {
+      intent: { type: "clock", action: "play" },
+      phrases: ["play", "resume", "unpause", "start time", "start the clock", "run the simulation", "play forward"],
+    },
+    {
+      intent: { type: "clock", action: "reverse" },
+      phrases: ["reverse", "rewind", "reverse time", "play backwards", "run backwards", "go backwards in time"],
+    },
+    {
+      intent: { type: "toggle", target: "paths", value: true },
+      phrases: ["show orbits", "show paths", "show orbital paths", "turn on orbits", "turn on paths", "orbits on", "paths on"],
+    },
+    {
+      intent: { type: "toggle", target: "paths", value: false },
+      phrases: ["hide orbits", "hide paths", "hide orbital paths", "turn off orbits", "turn off paths", "orbits off", "paths off"],
+    },
+    {
+      intent: { type: "toggle", target: "paths" },
+      phrases: ["toggle orbits", "toggle paths"],
+    },
+    {
+      intent: { type: "toggle", target: "labels", value: true },
+      phrases: ["show labels", "turn on labels", "labels on", "show names"],
+    },
+    {
+      intent: { type: "toggle", target: "labels", value: false },
+      phrases: ["hide labels", "turn off labels", "labels off", "hide names"],
+    },
+    {
+      intent: { type: "toggle", target: "labels" },
+      phrases: ["toggle labels"],
+    },
+    {
+      intent: { type: "toggle", target: "moons", value: true },
+      phrases: ["show moons", "show the moons", "turn on moons", "moons on"],
+    },
+    {
+      intent: { type: "toggle", target: "moons", value: false },
+      phrases: ["hide moons", "hide the moons", "turn off moons", "moons off"],
+    },
+    {
+      intent: { type: "toggle", target: "moons" },
+      phrases: ["toggle moons"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient", value: true },
+      phrases: ["lights on", "turn on the lights", "turn on ambient light", "ambient light on", "brighten", "brighter"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient", value: false },
+      phrases: ["lights off", "turn off the lights", "turn off ambient light", "ambient light off", "darken", "darker"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient" },
+      phrases: ["toggle lights", "toggle ambient light"],
+    },
+    {
+      intent: { type: "zoom", direction: "in" },
+      phrases: ["zoom in", "closer", "move closer", "get closer"],
+    },
+    {
+      intent: { type: "zoom", direction: "out" },
+      phrases: ["zoom out", "further", "farther", "move away", "back off"],
+    },
+  ],
+  speedPatterns: [
+    /^(?:set |change |make )?(?:the )?(?:simulation )?speed (?:to |at |of )?(.+)$/,
+    /^(.+?) (?:times|x) (?:speed|faster)$/,
+  ],
+  numberWords: {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+    eighteen: 18, nineteen: 19, twenty: 20, half: 0.5, quarter: 0.25,
+  },
+  numberJoiners: ["and", "a"],
+  decimalPoint: "point",
+  queryFields: [
+    { field: "parent", pattern: /\b(what|which)( \w+)? (does|is) .+ (orbit|orbiting|go around|going around|circle|circling)$/ },
+    { field: "parent", pattern: /\b(parent|moon of|whose moon)\b/ },
+    { field: "period", pattern: /\b(year|years|orbital period|to orbit|around the sun)\b/ },
+    { field: "daylength", pattern: /\b(day|day length|rotate|rotation|spin)\b/ },
+    { field: "tilt", pattern: /\b(tilt|tilted|axial|lean|leans|tipped)\b/ },
+    { field: "distance", pattern: /\b(how far|distance|far away|far from|farther|further|closer|nearer)\b/ },
+    { field: "radius", pattern: /\b(how big|how large|how wide|radius|diameter|size|bigger|larger|smaller|wider)\b/ },
+  ],
+  comparatives: {
+    bigger: "greater", larger: "greater", wider: "greater", farther: "greater", further: "greater",
+    longer: "greater", more: "greater", smaller: "less", closer: "less", nearer: "less", shorter: "less",
+    less: "less",
+  },
+  questionStart: /^(how|what|which|is|does|do|are)\b/,
+  referenceWords: ["from", "to"],
+  articles: ["the"],
+  elisions: [],
+  fillerWords: ["please", "now", "thanks", "thank", "okay", "ok", "hey", "just", "can", "could", "would", "you"],
+  courtesyWords: ["please", "now", "thanks", "thank", "you", "planet", "the", "a", "to", "me", "about", "tell", "would", "could", "can", "give"],
+  currentTargets: ["it", "this", "this one", "this planet", "here", "that"],
+  choiceWords: {
+    yes: ["yes", "yeah", "yep", "sure", "right", "that's right", "correct"],
+    no: ["no", "nope", "neither", "none", "cancel", "never mind", "nevermind"],
+    ordinals: [
+      ["first", "first one", "one", "1"],
+      ["second", "second one", "two", "2"],
+      ["third", "third one", "three", "3"],
+    ],
+  },
+  bodyAliases: {
+    Sun: ["sol", "the star"],
+    Earth: ["terra", "the world"],
+    Moon: ["luna", "earth's moon"],
+  },
+};
+
+// Grammars by language code.
+const GRAMMARS: Record<string, IntentGrammar> = {
+  en: ENGLISH_GRAMMAR,
+  es: SPANISH_GRAMMAR,
+  fr: FRENCH_GRAMMAR,
+};
+
+/**
+ * @param languageCode - Language spoken, e.g. "es" or "fr-CA".
+ * @returns the grammar for the language, or the English one if it has none.
+ */
+export const grammarFor = (languageCode: string): IntentGrammar =>
+  GRAMMARS[languageCode.toLowerCase().split("-")[0]] ?? ENGLISH_GRAMMAR;
+
+/**
+ * Lowercases text and strips its accents, e.g. "Júpiter" to "jupiter".
+ * @param text - Text to fold.
+ */
+export const foldText = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’‘]/g, "'");
+
+// Minimum confidence for each kind of intent.
+const TARGET_THRESHOLD = 0.45;
+const COMMAND_THRESHOLD = 0.6;
+// Bodies scoring this close to the best match are offered as alternatives to it.
+const CLOSE_MARGIN = 0.1;
+const MAX_ALTERNATIVES = 2;
+// How closely a word in a question must match a body name.
+const QUESTION_BODY_THRESHOLD = 0.75;
+
+/**
+ * Bodies questions can be asked about: everything in the planet data but rings,
+ * which are part of their planet.
+ * @param bodies - Entries from planets.json.
+ */
+export const questionBodies = (bodies: { name: string; type: string }[]): string[] =>
+  bodies.filter((body) => body.type !== "ring").map((body) => body.name);
+
+const levenshtein = (a: string, b: string): number => {
+  const matrix: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = 0; i <= a.length; i++) {
+    matrix[i][0] = i;
+  }
+  for (let j = 0; j <= b.length; j++) {
+    matrix[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost
+      );
+    }
+  }
+  return matrix[a.length][b.length];
+};
+
+export const levenshteinSimilarity = (reference: string, candidate: string): number => {
+  const distance = levenshtein(reference, candidate);
+  const maxLen = Math.max(reference.length, candidate.length) || 1;
+  return 1 - distance / maxLen;
+};
+
+const tokenOverlap = (reference: string, candidate: string): number => {
+  const refTokens = reference.split(/\s+/);
+  const candTokens = candidate.split(/\s+/);
+  const intersection = refTokens.filter((token) => candTokens.includes(token));
+  if (intersection.length === 0) {
+    return 0;
+  }
+  return (2 * intersection.length) / (refTokens.length + candTokens.length);
+};
+
+const similarity = (reference: string, candidate: string): number => {
+  if (!reference || !candidate) {
+    return 0;
+  }
+  if (reference === candidate) {
+    return 1;
+  }
+  // Whole words only, so "io" is not found in "radio"
+  if (` ${reference} `.includes(` ${candidate} `) || ` ${candidate} `.includes(` ${reference} `)) {
+    return 0.85;
+  }
+  return Math.max(tokenOverlap(reference, candidate), levenshteinSimilarity(reference, candidate));
+};
+
+type BodyMatch = { name: string; score: number };
+
+export class IntentParser {
+  private readonly bodies: string[];
+  private readonly questionBodies: string[];
+  private readonly grammar: IntentGrammar;
+  private readonly aliases = new Map<string, string[]>();
+  private readonly learned = new Map<string, string>();
+
+  /**
+   * Turns transcripts into voice intents.
+   * @constructor
+   * @param bodies - Bodies that can be flown to or narrated.
+   * @param questionBodies - Bodies that questions can be asked about.
+   * @param grammar - Phrases and patterns to recognise.
+   * @param learned - Names the user has taught, e.g. { "mark": "Mars" }, taken
+   * without question.
+   */
+  constructor(
+    bodies: string[],
+    questionBodies: string[],
+    grammar: IntentGrammar = ENGLISH_GRAMMAR,
+    learned: Record<string, string> = {}
+  ) {
+    this.bodies = bodies;
+    this.questionBodies = questionBodies;
+    this.grammar = grammar;
+    for (const [phrase, name] of Object.entries(learned)) {
+      if (bodies.includes(name)) {
+        this.learned.set(foldText(phrase).trim(), name);
+      }
+    }
+    for (const name of new Set([...bodies, ...questionBodies])) {
+      this.aliases.set(name, this.createAliases(name));
+    }
+  }
+
+  /**
+   * @param transcript - What was said.
+   * @returns the intent, or null if the transcript is not a command.
+   */
+  parse = (transcript: string): VoiceIntentEvent | null => {
+    const normalized = transcript.toLowerCase().trim();
+    if (!normalized) {
+      return null;
+    }
+
+    const text = this.prepare(normalized);
+
+    // "How far is Mars from the Sun", "Is Venus bigger than Earth"
+    const query = this.parseQuery(text, transcript, normalized);
+    if (query) {
+      return query;
+    }
+
+    // "Tell me about Jupiter", "Take me to Mars"
+    let targeted: VoiceIntentEvent | null = null;
+    for (const type of ["narrate", "open"] as const) {
+      const phrase = this.detectTargetPhrase(text, this.grammar.targetPhrases[type]);
+      if (phrase === null) {
+        continue;
+      }
+      const candidate = this.cleanCandidate(phrase);
+      if (type === "narrate" && (!candidate || this.grammar.currentTargets.includes(candidate))) {
+        targeted = { type, target: "", confidence: 0.9, transcript, normalized };
+        break;
+      }
+      const [match, ...others] = this.rankBodies(candidate);
+      if (match && match.score >= TARGET_THRESHOLD) {
+        const alternatives = others
+          .filter((other) => other.score >= TARGET_THRESHOLD && match.score - other.score <= CLOSE_MARGIN)
+          .slice(0, MAX_ALTERNATIVES)
+          .map((other) => other.name);
+        targeted = {
+          type,
+          target: match.name,
+          spoken: candidate,
+          ...(alternatives.length > 0 ? { alternatives } : {}),
+          confidence: match.score,
+          transcript,
+          normalized,
+        };
+        break;
+      }
+    }
+
+    const command = this.cleanCommand(text);
+
+    // "Set speed to five"
+    for (const pattern of this.grammar.speedPatterns) {
+      const match = command.match(pattern);
+      const value = match ? this.parseNumber(match[1]) : null;
+      if (value !== null && value > 0) {
+        return { type: "clock", action: "speed", value, confidence: 0.95, transcript, normalized };
+      }
+    }
+
+    // "Go back", "Say that again", "Show orbits"
+    let best: { intent: IntentFields<VoiceIntentEvent>; score: number } | null = null;
+    for (const { intent, phrases } of this.grammar.commands) {
+      const score = this.scoreCommand(command, phrases);
+      if (!best || score > best.score) {
+        best = { intent, score };
+      }
+    }
+    // A command that fits better wins, e.g. "show moons" is not "open Moon"
+    if (best && best.score >= COMMAND_THRESHOLD && best.score > (targeted?.confidence ?? 0)) {
+      return { ...best.intent, confidence: best.score, transcript, normalized } as VoiceIntentEvent;
+    }
+
+    return targeted;
+  };
+
+  /**
+   * Checks an intent classified elsewhere, such as by the STT proxy, against what
+   * this parser could produce, so only known commands, fields and bodies get through.
+   * @param received - Intent as received.
+   * @returns the intent, or null if this parser would never produce it.
+   */
+  accept = (received: unknown): VoiceIntentEvent | null => {
+    if (typeof received !== "object" || received === null || Array.isArray(received)) {
+      return null;
+    }
+    const value = received as Record<string, unknown>;
+    if (typeof value.type !== "string") {
+      return null;
+    }
+    const scored = {
+      confidence: typeof value.confidence === "number" ? value.confidence : 0.9,
+      transcript: typeof value.transcript === "string" ? value.transcript : "",
+      normalized: typeof value.normalized === "string" ? value.normalized : "",
+    };
+    const findName = (names: string[], name: unknown) =>
+      typeof name === "string" ? names.find((known) => known.toLowerCase() === name.toLowerCase()) : undefined;
+
+    switch (value.type) {
+      case "open":
+      case "narrate": {
+        // Narration may leave the target empty to mean the body in focus
+        if (value.type === "narrate" && value.target === "") {
+          return { type: "narrate", target: "", ...scored };
+        }
+        const target = findName(this.bodies, value.target);
+        if (!target) {
+          return null;
+        }
+        const offered = Array.isArray(value.alternatives) ? value.alternatives : [];
+        const alternatives = this.bodies.filter((name) => name !== target && offered.includes(name));
+        return {
+          type: value.type,
+          target,
+          ...(typeof value.spoken === "string" ? { spoken: value.spoken } : {}),
+          ...(alternatives.length > 0 ? { alternatives } : {}),
+          ...scored,
+        };
+      }
+      case "query": {
+        const query = this.grammar.queryFields.find(({ field }) => field === value.field);
+        // An empty target asks about the body in focus
+        const target = value.target === "" ? "" : findName(this.questionBodies, value.target);
+        if (!query || target === undefined) {
+          return null;
+        }
+        const other = findName(this.questionBodies, value.other);
+        const comparison = value.comparison === "greater" || value.comparison === "less" ? value.comparison : null;
+        return {
+          type: "query",
+          field: query.field,
+          target,
+          ...(other && comparison ? { other, comparison } : {}),
+          ...scored,
+        };
+      }
+      case "clock":
+        if (value.action === "speed") {
+          const speed = Number(value.value);
+          return speed > 0 ? { type: "clock", action: "speed", value: speed, ...scored } : null;
+        }
+        break;
+    }
+
+    // Whole commands must match one of the grammar's exactly, e.g. "show orbits"
+    // sets paths on where "toggle orbits" flips them
+    const fields = Object.entries(value).filter(([key]) => !(key in scored));
+    const command = this.grammar.commands.find(
+      ({ intent }) =>
+        Object.keys(intent).length === fields.length &&
+        fields.every(([key, field]) => (intent as Record<string, unknown>)[key] === field)
+    );
+    return command ? ({ ...command.intent, ...scored } as VoiceIntentEvent) : null;
+  };
+
+  /**
+   * Reads an answer to a question such as "Did you mean Mars or Moon?".
+   * @param transcript - What was said.
+   * @param choices - Bodies offered, in order.
+   * @returns the index of the body chosen, -1 for no, or null if the transcript
+   * does not answer the question.
+   */
+  parseChoice = (transcript: string, choices: string[]): number | null => {
+    const text = this.cleanCandidate(this.prepare(transcript.toLowerCase().trim()));
+    const { yes, no, ordinals } = this.grammar.choiceWords;
+    if (no.includes(text)) {
+      return -1;
+    }
+    if (yes.includes(text)) {
+      return 0;
+    }
+    const ordinal = ordinals.findIndex((words) => words.includes(text));
+    if (ordinal >= 0 && ordinal < choices.length) {
+      return ordinal;
+    }
+
+    let best: { index: number; score: number } | null = null;
+    for (const [index, name] of choices.entries()) {
+      const aliases = this.aliases.get(name) ?? [foldText(name)];
+      const score = Math.max(...aliases.map((alias) => similarity(alias, text)));
+      if (!best || score > best.score) {
+        best = { index, score };
+      }
+    }
+    return best && best.score >= TARGET_THRESHOLD ? best.index : null;
+  };
+
+  /**
+   * Reduces a transcript to plain words: accents, punctuation and hyphens removed,
+   * and elided words split off.
+   */
+  private prepare(normalized: string): string {
+    let text = foldText(normalized)
+      .replace(/(\d),(\d)/g, "$1.$2") // "2,5" is a decimal where a comma marks one
+      .replace(/[?!,¿¡]|\.(?!\d)/g, " ")
+      .replace(/-/g, " ");
+    for (const elision of this.grammar.elisions) {
+      text = text.replace(new RegExp(`(^|\\s)${elision}`, "g"), `$1${elision} `);
+    }
+    return text.replace(/\s+/g, " ").trim();
+  }
+
+  private createAliases(name: string): string[] {
+    const base = foldText(name);
+    const aliases = new Set([base, ...this.grammar.articles.map((article) => `${article} ${base}`)]);
+    if (base.endsWith("'s rings")) {
+      aliases.add(base.replace("'s", ""));
+    }
+    for (const alias of this.grammar.bodyAliases[name] ?? []) {
+      aliases.add(foldText(alias));
+    }
+    return Array.from(aliases);
+  }
+
+  private parseQuery(text: string, transcript: string, normalized: string): VoiceIntentEvent | null {
+    const field = this.grammar.queryFields.find(({ pattern }) => pattern.test(text))?.field;
+    if (!field) {
+      return null;
+    }
+
+    const words = text.split(" ");
+    const comparison = words.map((word) => this.grammar.comparatives[word]).find(Boolean);
+    let bodies = this.findBodies(words);
+    // "Is Mars further from the Sun than Earth" compares Mars and Earth
+    if (bodies.length > 2) {
+      bodies = bodies.filter((body) => !body.reference);
+    }
+
+    if (bodies.length === 0) {
+      const current = this.grammar.currentTargets.some((target) => ` ${text} `.includes(` ${target} `));
+      if (!current || !this.grammar.questionStart.test(text)) {
+        return null;
+      }
+      return { type: "query", field, target: "", confidence: 0.85, transcript, normalized };
+    }
+
+    const [first, second] = bodies;
+    // Only a comparison names a second body to answer about; "from the Sun" does not
+    const compared = comparison && second ? second : null;
+    return {
+      type: "query",
+      field,
+      target: first.name,
+      ...(compared ? { other: compared.name, comparison } : {}),
+      confidence: 0.95 * Math.min(first.score, compared?.score ?? 1),
+      transcript,
+      normalized,
+    };
+  }
+
+  /**
+   * Finds the bodies named in a question, in the order they are mentioned.
+   * @param words - Words of the question.
+   * @returns each body with how closely it matched and whether it follows a
+   * reference word, as "the Sun" does in "how far is Mars from the Sun".
+   */
+  private findBodies(words: string[]): (BodyMatch & { reference: boolean })[] {
+    const found: (BodyMatch & { reference: boolean })[] = [];
+    words.forEach((raw, index) => {
+      const word = raw.replace(/'s$/, "");
+      let best: BodyMatch | null = null;
+      for (const name of this.questionBodies) {
+        const reference = foldText(name);
+        // Short words are matched exactly so "is" is never mistaken for "Io"
+        const score =
+          word === reference || this.aliases.get(name)?.includes(word)
+            ? 1
+            : word.length >= 4 && reference.length >= 4
+              ? levenshteinSimilarity(reference, word)
+              : 0;
+        if (score >= QUESTION_BODY_THRESHOLD && (!best || score > best.score)) {
+          best = { name, score };
+        }
+      }
+      if (!best || found.some((body) => body.name === best!.name)) {
+        return;
+      }
+      const previous = this.grammar.articles.includes(words[index - 1]) ? words[index - 2] : words[index - 1];
+      found.push({ ...best, reference: this.grammar.referenceWords.includes(previous) });
+    });
+    return found;
+  }
+
+  /**
+   * Reads a number written in digits ("2.5") or words ("two and a half", "one point five").
+   * @returns the number, or null if the text is not one.
+   */
+  private parseNumber(text: string): number | null {
+    const words = text.trim().replace(/-/g, " ").split(/\s+/);
+    if (words.length === 1 && /^\d+(?:\.\d+)?$/.test(words[0])) {
+      return Number(words[0]);
+    }
+
+    let value = 0;
+    let fraction = 0; // digits read after the decimal point
+    let seen = false;
+    for (const word of words) {
+      if (this.grammar.numberJoiners.includes(word)) {
+        continue;
+      }
+      if (word === this.grammar.decimalPoint) {
+        fraction = 1;
+        continue;
+      }
+      const number = /^\d$/.test(word) ? Number(word) : this.grammar.numberWords[word];
+      if (number === undefined) {
+        return null;
+      }
+      if (fraction > 0) {
+        if (number > 9) {
+          return null;
+        }
+        value += number / Math.pow(10, fraction++);
+      } else {
+        value += number;
+      }
+      seen = true;
+    }
+    return seen ? value : null;
+  }
+
+  /**
+   * Finds the words following an introductory phrase, e.g. "mars" in "take me to mars".
+   * @returns the words after the phrase, an empty string if nothing follows it, or
+   * null if the phrase is not present.
+   */
+  private detectTargetPhrase(text: string, phrases: string[]): string | null {
+    for (const phrase of phrases) {
+      const match = ` ${text} `.match(new RegExp(`\\s${phrase.replace(/'/g, "'?")}\\s(.*)$`));
+      if (match) {
+        return match[1].trim();
+      }
+    }
+    return null;
+  }
+
+  private cleanCommand = (text: string): string => {
+    return text
+      .split(" ")
+      .filter((token) => token && !this.grammar.fillerWords.includes(token))
+      .join(" ");
+  };
+
+  /**
+   * Scores how well a whole utterance matches any of a command's phrases: exact
+   * matches score 1, utterances containing a phrase score by how much of the
+   * utterance it covers, and near misses ("stap") score by edit distance.
+   */
+  private scoreCommand(text: string, phrases: string[]): number {
+    if (!text) {
+      return 0;
+    }
+    const words = text.split(" ").length;
+    let best = 0;
+    for (const phrase of phrases.map(this.cleanCommand)) {
+      if (text === phrase) {
+        return 1;
+      }
+      if (` ${text} `.includes(` ${phrase} `)) {
+        best = Math.max(best, 0.6 + (0.3 * phrase.split(" ").length) / words);
+      } else {
+        best = Math.max(best, 0.9 * levenshteinSimilarity(phrase, text));
+      }
+    }
+    return best;
+  }
+
+  private cleanCandidate(raw: string): string {
+    const sanitized = raw
+      .replace(/[.?!,]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token && !this.grammar.courtesyWords.includes(token))
+      .join(" ")
+      .trim();
+    if (sanitized) {
+      return sanitized;
+    }
+    return raw.replace(/[.?!,]/g, " ").trim();
+  }
+
+  /**
+   * @returns every body with how closely it matches, best first; a name the user
+   * has taught matches alone.
+   */
+  private rankBodies(candidate: string): BodyMatch[] {
+    if (!candidate) {
+      return [];
+    }
+    const normalizedCandidate = foldText(candidate);
+    const learned = this.learned.get(normalizedCandidate);
+    if (learned) {
+      return [{ name: learned, score: 1 }];
+    }
+    return this.bodies
+      .map((name) => {
+        const aliases = this.aliases.get(name) ?? [foldText(name)];
+        return { name, score: Math.max(...aliases.map((alias) => similarity(alias, normalizedCandidate))) };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
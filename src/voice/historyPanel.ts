@@ -0,0 +1,167 @@
+import { eventBus, VoiceIntentEvent } from "./eventBus";
+
+export type VoiceHistoryEntry = {
+  time: string; // ISO date
+  transcript?: string;
+  intent?: VoiceIntentEvent | null;
+  summary?: string;
+  confidence?: number;
+  latencyMs?: number | null;
+  error?: string;
+};
+
+// Oldest entries are dropped beyond this many.
+const MAX_ENTRIES = 200;
+
+export class VoiceHistoryPanel {
+  private entries: VoiceHistoryEntry[] = [];
+  private container: HTMLElement;
+  private toggleButton: HTMLButtonElement;
+  private body: HTMLElement;
+  private list: HTMLOListElement;
+
+  /**
+   * Collapsible log of what voice control heard and did, with each command
+   * replayable and the whole log exportable as JSON.
+   * @constructor
+   * @param container - Element to render the panel into.
+   */
+  constructor(container: HTMLElement) {
+    this.container = container;
+
+    this.toggleButton = document.createElement("button");
+    this.toggleButton.type = "button";
+    this.toggleButton.className = "voice-history-toggle";
+    this.toggleButton.addEventListener("click", () => {
+      this.setExpanded(this.body.hidden);
+    });
+
+    this.list = document.createElement("ol");
+    this.list.className = "voice-history-list";
+    const controls = document.createElement("div");
+    controls.className = "voice-history-controls";
+    controls.append(
+      this.createButton("Export", "Export voice history as JSON", this.export),
+      this.createButton("Clear", "Clear voice history", this.clear)
+    );
+    this.body = document.createElement("div");
+    this.body.append(this.list, controls);
+
+    this.container.append(this.toggleButton, this.body);
+    this.setExpanded(false);
+
+    eventBus.on("voiceToggle", ({ enabled }) => {
+      this.container.hidden = !enabled;
+    });
+    eventBus.on("voiceHeard", ({ transcript, intent, summary, latencyMs }) => {
+      this.add({
+        time: new Date().toISOString(),
+        transcript,
+        intent,
+        summary,
+        ...(intent ? { confidence: intent.confidence } : {}),
+        latencyMs,
+      });
+    });
+    eventBus.on("voiceError", ({ message, context }) => {
+      this.add({
+        time: new Date().toISOString(),
+        error: context === undefined ? message : `${message}: ${String(context)}`,
+      });
+    });
+  }
+
+  /**
+   * Downloads the log as a JSON file.
+   */
+  export = () => {
+    const blob = new Blob([JSON.stringify(this.entries, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `voice-history-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Empties the log.
+   */
+  clear = () => {
+    this.entries = [];
+    this.list.replaceChildren();
+    this.renderCount();
+  };
+
+  private add(entry: VoiceHistoryEntry): void {
+    this.entries.push(entry);
+    this.list.prepend(this.renderEntry(entry));
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.shift();
+      this.list.lastElementChild?.remove();
+    }
+    this.renderCount();
+  }
+
+  private renderEntry(entry: VoiceHistoryEntry): HTMLLIElement {
+    const item = document.createElement("li");
+    const time = new Date(entry.time).toLocaleTimeString();
+
+    if (entry.error) {
+      item.className = "is-error";
+      item.append(this.createText("voice-history-heard", `${time} · ${entry.error}`));
+      return item;
+    }
+
+    const details = [
+      entry.summary,
+      entry.confidence !== undefined ? `${Math.round(entry.confidence * 100)}%` : null,
+      typeof entry.latencyMs === "number" ? `${entry.latencyMs} ms` : null,
+    ].filter(Boolean);
+    item.append(
+      this.createText("voice-history-heard", `${time} · “${entry.transcript}”`),
+      this.createText("voice-history-result", details.join(" · "))
+    );
+
+    const intent = entry.intent;
+    if (intent) {
+      // Replays the command as it was understood, without hearing it again
+      item.append(
+        this.createButton("↻", "Run again", () => {
+          eventBus.emit("voiceCommand", { ...intent });
+        })
+      );
+    }
+    return item;
+  }
+
+  private setExpanded(expanded: boolean): void {
+    this.body.hidden = !expanded;
+    this.container.classList.toggle("is-expanded", expanded);
+    this.toggleButton.title = expanded ? "Hide voice history" : "Show voice history";
+    this.toggleButton.setAttribute("aria-expanded", String(expanded));
+    this.renderCount();
+  }
+
+  private renderCount(): void {
+    const arrow = this.body.hidden ? "▸" : "▾";
+    this.toggleButton.textContent = `${arrow} Voice history (${this.entries.length})`;
+  }
+
+  private createText(className: string, text: string): HTMLElement {
+    const element = document.createElement("p");
+    element.className = className;
+    element.textContent = text;
+    return element;
+  }
+
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = text;
+    button.title = title;
+    button.setAttribute("aria-label", title);
+    button.addEventListener("click", onClick);
+    return button;
+  }
+}
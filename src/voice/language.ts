@@ -0,0 +1,59 @@
+export type LanguageCode = "en" | "es" | "fr";
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+// Languages offered in the settings panel, by label.
+export const LANGUAGES: Record<string, LanguageCode> = {
+  English: "en",
+  Español: "es",
+  Français: "fr",
+};
+
+/**
+ * Path of an audio clip in a language; English clips sit at the top of /audio and
+ * others in a folder named after their language, e.g. /audio/es/narration-mars.mp3.
+ * @param file - Clip file name.
+ * @param language - Language of the clip.
+ */
+export const audioPath = (file: string, language: LanguageCode): string =>
+  language === DEFAULT_LANGUAGE ? `/audio/${file}` : `/audio/${language}/${file}`;
+
+/**
+ * Creates an audio element for a clip in a language, which switches to the English
+ * clip if that language has none, carrying on playing if it was asked to.
+ * @param file - Clip file name, e.g. "narration-mars.mp3".
+ * @param language - Language to play the clip in.
+ * @param onMissing - Called if there is no clip in English either.
+ */
+export const createLocalizedAudio = (
+  file: string,
+  language: LanguageCode,
+  onMissing?: () => void
+): HTMLAudioElement => {
+  const audio = new Audio(audioPath(file, language));
+  audio.preload = "auto";
+  const missing = () => {
+    console.warn(`[voice] No clip for ${file}`);
+    onMissing?.();
+  };
+  if (language !== DEFAULT_LANGUAGE) {
+    audio.addEventListener(
+      "error",
+      () => {
+        console.warn(`[voice] No ${language} clip for ${file}; using English`);
+        const playing = !audio.paused;
+        audio.addEventListener("error", missing, { once: true });
+        audio.src = audioPath(file, DEFAULT_LANGUAGE);
+        if (playing) {
+          audio.play().catch((error) => {
+            console.error("[voice] Failed to play fallback clip", error);
+          });
+        }
+      },
+      { once: true }
+    );
+  } else {
+    audio.addEventListener("error", missing, { once: true });
+  }
+  return audio;
+};
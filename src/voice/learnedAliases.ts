@@ -0,0 +1,73 @@
+import { getLocalStorage } from "../setup/storage";
+import { foldText } from "./grammar";
+
+const storageKey = "solar-system-voice-aliases";
+
+export class LearnedAliases {
+  private aliases: Record<string, string> = {};
+  private storage: Storage | null;
+
+  /**
+   * Remembers what the user meant when a spoken name was unclear, so "go to mark"
+   * goes straight to Mars once they have picked Mars for it.
+   * @constructor
+   * @param storage - Where corrections are kept; defaults to local storage.
+   */
+  constructor(storage?: Storage) {
+    this.storage = storage ?? getLocalStorage();
+    this.aliases = this.load();
+  }
+
+  /**
+   * @returns every learned name, by the words that were spoken.
+   */
+  all = (): Record<string, string> => {
+    return { ...this.aliases };
+  };
+
+  /**
+   * Remembers that some words mean a body.
+   * @param phrase - Words spoken, e.g. "mark".
+   * @param name - Body they mean, e.g. "Mars".
+   */
+  learn = (phrase: string, name: string) => {
+    const key = foldText(phrase).trim();
+    if (!key || key === foldText(name) || this.aliases[key] === name) {
+      return;
+    }
+    this.aliases[key] = name;
+    this.save();
+  };
+
+  /**
+   * Forgets every learned name.
+   */
+  clear = () => {
+    this.aliases = {};
+    this.storage?.removeItem(storageKey);
+  };
+
+  private load(): Record<string, string> {
+    const raw = this.storage?.getItem(storageKey);
+    if (!raw) {
+      return {};
+    }
+    try {
+      const stored = JSON.parse(raw);
+      return Object.fromEntries(
+        Object.entries(stored ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+      );
+    } catch (error) {
+      console.warn("[voice][aliases] Unable to read learned names", error);
+      return {};
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(storageKey, JSON.stringify(this.aliases));
+    } catch (error) {
+      console.warn("[voice][aliases] Unable to save learned names", error);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import type { IntentGrammar } from "../grammar";
+
+// Spanish voice commands, written without accents as transcripts are matched.
+export const SPANISH_GRAMMAR: IntentGrammar = {
+  targetPhrases: {
+    narrate: [
+      "cuentame mas sobre",
+      "cuentame sobre",
+      "cuentame de",
+      "hablame sobre",
+      "hablame de",
+      "habla de",
+      "narra",
+      "describe",
+      "explica",
+      "que es",
+    ],
+    open: [
+      "abre",
+      "abrir",
+      "ve a",
+      "ir a",
+      "vamos a",
+      "llevame a",
+      "muestrame",
+      "muestra",
+      "enfoca",
+      "centrate en",
+      "vuela a",
+      "viaja a",
+      "vuelve a",
+      "visita",
+    ],
+  },
+  commands: [
+    {
+      intent: { type: "next" },
+      phrases: ["siguiente", "el siguiente", "siguiente planeta", "proximo", "adelante", "avanza", "salta", "continua", "sigue"],
+    },
+    {
+      intent: { type: "previous" },
+      phrases: ["anterior", "el anterior", "planeta anterior", "atras", "vuelve", "regresa", "vuelve atras"],
+    },
+    {
+      intent: { type: "repeat" },
+      phrases: ["repite", "repitelo", "otra vez", "de nuevo", "una vez mas", "que dijiste", "perdon"],
+    },
+    {
+      intent: { type: "stop" },
+      phrases: ["para", "detente", "alto", "silencio", "callate", "calla", "basta", "ya basta", "cancela"],
+    },
+    {
+      intent: { type: "clock", action: "faster" },
+      phrases: ["mas rapido", "acelera", "aumenta la velocidad", "mas velocidad"],
+    },
+    {
+      intent: { type: "clock", action: "slower" },
+      phrases: ["mas despacio", "mas lento", "frena", "reduce la velocidad", "menos velocidad"],
+    },
+    {
+      intent: { type: "clock", action: "pause" },
+      phrases: ["pausa", "pausar", "congela", "congela el tiempo", "deten el tiempo", "para el tiempo", "para la simulacion"],
+    },
+    {
+      intent: { type: "clock", action: "play" },
+      phrases: ["reanuda", "reanudar", "reproduce", "inicia el tiempo", "arranca el reloj", "pon en marcha la simulacion"],
+    },
+    {
+      intent: { type: "clock", action: "reverse" },
+      phrases: ["retrocede", "rebobina", "invierte el tiempo", "tiempo hacia atras", "hacia atras en el tiempo"],
+    },
+    {
+      intent: { type: "toggle", target: "paths", value: true },
+      phrases: ["muestra las orbitas", "muestra orbitas", "muestra las trayectorias", "activa las orbitas", "enciende las orbitas"],
+    },
+    {
+      intent: { type: "toggle", target: "paths", value: false },
+      phrases: ["oculta las orbitas", "oculta orbitas", "oculta las trayectorias", "desactiva las orbitas", "quita las orbitas"],
+    },
+    {
+      intent: { type: "toggle", target: "paths" },
+      phrases: ["alterna las orbitas", "cambia las orbitas"],
+    },
+    {
+      intent: { type: "toggle", target: "labels", value: true },
+      phrases: ["muestra las etiquetas", "muestra los nombres", "activa las etiquetas"],
+    },
+    {
+      intent: { type: "toggle", target: "labels", value: false },
+      phrases: ["oculta las etiquetas", "oculta los nombres", "desactiva las etiquetas", "quita las etiquetas"],
+    },
+    {
+      intent: { type: "toggle", target: "labels" },
+      phrases: ["alterna las etiquetas", "cambia las etiquetas"],
+    },
+    {
+      intent: { type: "toggle", target: "moons", value: true },
+      phrases: ["muestra las lunas", "muestra lunas", "activa las lunas"],
+    },
+    {
+      intent: { type: "toggle", target: "moons", value: false },
+      phrases: ["oculta las lunas", "oculta lunas", "desactiva las lunas", "quita las lunas"],
+    },
+    {
+      intent: { type: "toggle", target: "moons" },
+      phrases: ["alterna las lunas", "cambia las lunas"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient", value: true },
+      phrases: ["enciende las luces", "enciende la luz", "enciende la luz ambiental", "ilumina", "mas claro"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient", value: false },
+      phrases: ["apaga las luces", "apaga la luz", "apaga la luz ambiental", "oscurece", "mas oscuro"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient" },
+      phrases: ["alterna las luces", "cambia las luces"],
+    },
+    {
+      intent: { type: "zoom", direction: "in" },
+      phrases: ["acercate", "acerca", "acercar", "mas cerca", "haz zoom"],
+    },
+    {
+      intent: { type: "zoom", direction: "out" },
+      phrases: ["alejate", "aleja", "alejar", "mas lejos", "quita el zoom"],
+    },
+  ],
+  speedPatterns: [
+    /^(?:pon |cambia |ajusta )?(?:la )?velocidad(?: de la simulacion)? (?:a |en )?(.+)$/,
+    /^(.+?) (?:veces|x) (?:la velocidad|mas rapido)$/,
+  ],
+  numberWords: {
+    cero: 0, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9,
+    diez: 10, once: 11, doce: 12, trece: 13, catorce: 14, quince: 15, dieciseis: 16, diecisiete: 17,
+    dieciocho: 18, diecinueve: 19, veinte: 20, medio: 0.5, media: 0.5, cuarto: 0.25,
+  },
+  numberJoiners: ["y", "un"],
+  decimalPoint: "coma",
+  queryFields: [
+    { field: "parent", pattern: /\b(alrededor de que|a que orbita|que orbita|de que planeta|luna de que)\b/ },
+    { field: "period", pattern: /\b(ano|anos|periodo orbital|en orbitar|vuelta al sol|alrededor del sol)\b/ },
+    { field: "daylength", pattern: /\b(dia|dias|duracion del dia|rotar|rotacion|girar|gira)\b/ },
+    { field: "tilt", pattern: /\b(inclinacion|inclinado|inclinada|eje)\b/ },
+    { field: "distance", pattern: /\b(que tan lejos|a que distancia|distancia|lejos|cerca|lejano|cercano)\b/ },
+    { field: "radius", pattern: /\b(que tan grande|tamano|radio|diametro|grande|pequeno|pequena|chico|mayor|menor)\b/ },
+  ],
+  comparatives: {
+    grande: "greater", mayor: "greater", lejos: "greater", lejano: "greater", largo: "greater", inclinado: "greater",
+    pequeno: "less", pequena: "less", chico: "less", menor: "less", cerca: "less", cercano: "less", corto: "less",
+  },
+  questionStart: /^(que|cual|cuanto|cuanta|cuantos|cuantas|como|es|esta|tiene|a que|de que|alrededor)\b/,
+  referenceWords: ["de", "del", "desde", "a", "al"],
+  articles: ["el", "la", "los", "las"],
+  elisions: [],
+  fillerWords: ["por", "favor", "gracias", "ahora", "vale", "oye", "solo", "puedes", "podrias"],
+  courtesyWords: ["por", "favor", "gracias", "ahora", "planeta", "el", "la", "los", "las", "a", "al", "me", "sobre", "de", "del", "puedes", "podrias"],
+  currentTargets: ["esto", "este", "esta", "eso", "ese", "aqui", "este planeta"],
+  choiceWords: {
+    yes: ["si", "claro", "correcto", "exacto", "eso es", "vale"],
+    no: ["no", "ninguno", "ninguna", "cancela", "cancelar", "olvidalo"],
+    ordinals: [
+      ["primero", "primera", "uno", "1"],
+      ["segundo", "segunda", "dos", "2"],
+      ["tercero", "tercera", "tres", "3"],
+    ],
+  },
+  bodyAliases: {
+    Sun: ["sol", "la estrella"],
+    Mercury: ["mercurio"],
+    Earth: ["tierra", "el mundo"],
+    Moon: ["luna"],
+    Mars: ["marte"],
+    Saturn: ["saturno"],
+    Uranus: ["urano"],
+    Neptune: ["neptuno"],
+    "Rings of Saturn": ["anillos de saturno", "los anillos de saturno", "anillos"],
+    Ganymede: ["ganimedes"],
+    Callisto: ["calisto"],
+  },
+};
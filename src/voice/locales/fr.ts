@@ -0,0 +1,184 @@
+import type { IntentGrammar } from "../grammar";
+
+// French voice commands, written without accents and with elisions split off
+// ("d' uranus"), as transcripts are matched.
+export const FRENCH_GRAMMAR: IntentGrammar = {
+  targetPhrases: {
+    narrate: [
+      "parle moi de",
+      "parle moi d'",
+      "parlez moi de",
+      "parlez moi d'",
+      "raconte moi",
+      "dis moi tout sur",
+      "decris",
+      "explique",
+      "qu'est ce que",
+      "c'est quoi",
+    ],
+    open: [
+      "ouvre",
+      "ouvrir",
+      "va a",
+      "va sur",
+      "va vers",
+      "allons a",
+      "allons sur",
+      "emmene moi a",
+      "emmene moi sur",
+      "amene moi a",
+      "montre moi",
+      "montre",
+      "affiche",
+      "centre sur",
+      "vole vers",
+      "retourne a",
+      "retourne sur",
+      "visite",
+    ],
+  },
+  commands: [
+    {
+      intent: { type: "next" },
+      phrases: ["suivant", "suivante", "le suivant", "la suivante", "planete suivante", "avance", "en avant", "passe", "continue"],
+    },
+    {
+      intent: { type: "previous" },
+      phrases: ["precedent", "precedente", "le precedent", "la precedente", "planete precedente", "retour", "reviens", "en arriere"],
+    },
+    {
+      intent: { type: "repeat" },
+      phrases: ["repete", "repete ca", "redis", "redis le", "encore", "encore une fois", "une fois de plus", "pardon"],
+    },
+    {
+      intent: { type: "stop" },
+      phrases: ["stop", "arrete", "arrete toi", "tais toi", "silence", "chut", "ca suffit", "assez", "annule"],
+    },
+    {
+      intent: { type: "clock", action: "faster" },
+      phrases: ["plus vite", "accelere", "augmente la vitesse", "plus de vitesse"],
+    },
+    {
+      intent: { type: "clock", action: "slower" },
+      phrases: ["moins vite", "plus lentement", "ralentis", "ralentir", "diminue la vitesse", "moins de vitesse"],
+    },
+    {
+      intent: { type: "clock", action: "pause" },
+      phrases: ["pause", "mets en pause", "fige", "fige le temps", "arrete le temps", "arrete la simulation"],
+    },
+    {
+      intent: { type: "clock", action: "play" },
+      phrases: ["lecture", "reprends", "reprendre", "demarre", "lance le temps", "relance la simulation"],
+    },
+    {
+      intent: { type: "clock", action: "reverse" },
+      phrases: ["inverse", "inverse le temps", "rembobine", "remonte le temps", "en arriere dans le temps"],
+    },
+    {
+      intent: { type: "toggle", target: "paths", value: true },
+      phrases: ["montre les orbites", "affiche les orbites", "affiche les trajectoires", "active les orbites"],
+    },
+    {
+      intent: { type: "toggle", target: "paths", value: false },
+      phrases: ["cache les orbites", "masque les orbites", "masque les trajectoires", "desactive les orbites"],
+    },
+    {
+      intent: { type: "toggle", target: "paths" },
+      phrases: ["bascule les orbites"],
+    },
+    {
+      intent: { type: "toggle", target: "labels", value: true },
+      phrases: ["montre les etiquettes", "affiche les etiquettes", "affiche les noms", "active les etiquettes"],
+    },
+    {
+      intent: { type: "toggle", target: "labels", value: false },
+      phrases: ["cache les etiquettes", "masque les etiquettes", "cache les noms", "desactive les etiquettes"],
+    },
+    {
+      intent: { type: "toggle", target: "labels" },
+      phrases: ["bascule les etiquettes"],
+    },
+    {
+      intent: { type: "toggle", target: "moons", value: true },
+      phrases: ["montre les lunes", "affiche les lunes", "active les lunes", "montre les satellites"],
+    },
+    {
+      intent: { type: "toggle", target: "moons", value: false },
+      phrases: ["cache les lunes", "masque les lunes", "desactive les lunes", "cache les satellites"],
+    },
+    {
+      intent: { type: "toggle", target: "moons" },
+      phrases: ["bascule les lunes"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient", value: true },
+      phrases: ["allume les lumieres", "allume la lumiere", "active la lumiere ambiante", "eclaire", "plus clair"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient", value: false },
+      phrases: ["eteins les lumieres", "eteins la lumiere", "desactive la lumiere ambiante", "assombris", "plus sombre"],
+    },
+    {
+      intent: { type: "toggle", target: "ambient" },
+      phrases: ["bascule les lumieres"],
+    },
+    {
+      intent: { type: "zoom", direction: "in" },
+      phrases: ["zoome", "zoom avant", "rapproche toi", "approche", "plus pres"],
+    },
+    {
+      intent: { type: "zoom", direction: "out" },
+      phrases: ["dezoome", "zoom arriere", "eloigne toi", "recule", "plus loin"],
+    },
+  ],
+  speedPatterns: [
+    /^(?:mets |regle |change )?(?:la )?vitesse(?: de la simulation)? (?:a |sur |de )?(.+)$/,
+    /^(.+?) (?:fois|x) (?:la vitesse|plus vite)$/,
+  ],
+  numberWords: {
+    zero: 0, un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9,
+    dix: 10, onze: 11, douze: 12, treize: 13, quatorze: 14, quinze: 15, seize: 16, vingt: 20,
+    demi: 0.5, demie: 0.5, quart: 0.25,
+  },
+  numberJoiners: ["et"],
+  decimalPoint: "virgule",
+  queryFields: [
+    { field: "parent", pattern: /\b(autour de quoi|autour de quelle|lune de quelle|satellite de quelle)\b/ },
+    { field: "period", pattern: /\b(annee|annees|an|ans|periode orbitale|revolution|tour du soleil|autour du soleil)\b/ },
+    { field: "daylength", pattern: /\b(jour|jours|journee|duree du jour|rotation|sur elle meme|sur lui meme)\b/ },
+    { field: "tilt", pattern: /\b(inclinaison|incline|inclinee|axe)\b/ },
+    { field: "distance", pattern: /\b(a quelle distance|distance|loin|eloigne|eloignee|pres|proche)\b/ },
+    { field: "radius", pattern: /\b(quelle taille|taille|rayon|diametre|grand|grande|gros|grosse|petit|petite)\b/ },
+  ],
+  comparatives: {
+    grand: "greater", grande: "greater", gros: "greater", grosse: "greater", loin: "greater", eloigne: "greater",
+    eloignee: "greater", long: "greater", longue: "greater", petit: "less", petite: "less", pres: "less",
+    proche: "less", court: "less", courte: "less",
+  },
+  questionStart: /^(quel|quelle|quels|quelles|combien|comment|est ce que|est il|est elle|a quelle|autour|qu'est ce)\b/,
+  referenceWords: ["de", "d'", "du", "a", "au"],
+  articles: ["le", "la", "les", "l'"],
+  elisions: ["l'", "d'"],
+  fillerWords: ["s'il", "te", "vous", "plait", "merci", "maintenant", "ok", "d'accord", "juste", "peux", "tu", "pourrais"],
+  courtesyWords: ["s'il", "te", "vous", "plait", "merci", "maintenant", "planete", "le", "la", "les", "l'", "a", "au", "sur", "de", "d'", "du", "moi", "tu", "peux"],
+  currentTargets: ["ca", "cela", "ceci", "celle ci", "celui ci", "cette planete", "ici", "elle", "il"],
+  choiceWords: {
+    yes: ["oui", "ouais", "exact", "exactement", "c'est ca", "d'accord"],
+    no: ["non", "aucun", "aucune", "annule", "laisse tomber", "ni un ni autre"],
+    ordinals: [
+      ["premier", "premiere", "un", "1"],
+      ["deuxieme", "second", "seconde", "deux", "2"],
+      ["troisieme", "trois", "3"],
+    ],
+  },
+  bodyAliases: {
+    Sun: ["soleil", "etoile"],
+    Mercury: ["mercure"],
+    Earth: ["terre", "le monde"],
+    Moon: ["lune"],
+    Saturn: ["saturne"],
+    "Rings of Saturn": ["anneaux de saturne", "les anneaux de saturne", "anneaux"],
+    Ganymede: ["ganymede"],
+    Europa: ["europe"],
+  },
+};
@@ -0,0 +1,10 @@
+// Transcripts the mock providers return, in turn: the browser's and the one in
+// server/stt-proxy.js, which loads this file by stripping its types like grammar.ts.
+export const MOCK_TRANSCRIPTS = [
+  "open Mars",
+  "tell me about Jupiter",
+  "how big is Saturn",
+  "next",
+  "zoom in",
+  "show orbits",
+];
@@ -0,0 +1,64 @@
+import narrationData from "./narration-data.json";
+import spanishNarration from "./locales/es.narration.json";
+import frenchNarration from "./locales/fr.narration.json";
+import { DEFAULT_LANGUAGE, LanguageCode } from "./language";
+
+type NarrationText = {
+  name: string;
+  title?: string; // name as said in the language, e.g. "el Sol"
+  text: string;
+};
+
+const NARRATION: Record<LanguageCode, NarrationText[]> = {
+  en: narrationData,
+  es: spanishNarration,
+  fr: frenchNarration,
+};
+
+// Same lines as server/generate-welcome-tts.js records.
+const WELCOME: Record<LanguageCode, (title: string) => string> = {
+  en: (title) => `Welcome to ${title}.`,
+  es: (title) => `Bienvenido a ${title}.`,
+  fr: (title) => `Bienvenue sur ${title}.`,
+};
+
+const find = (name: string, language: LanguageCode): NarrationText | undefined => {
+  const key = name.trim().toLowerCase();
+  return NARRATION[language].find((entry) => entry.name.toLowerCase() === key);
+};
+
+/**
+ * Narration for a body, to speak when it has no clip; English text stands in
+ * where a language has none.
+ * @param name - Body name, e.g. "Titan".
+ * @param language - Language wanted.
+ * @returns the text and the language it is in, or null for an unknown body.
+ */
+export const narrationText = (
+  name: string,
+  language: LanguageCode
+): { text: string; language: LanguageCode } | null => {
+  const entry = find(name, language);
+  if (entry) {
+    return { text: entry.text, language };
+  }
+  const fallback = find(name, DEFAULT_LANGUAGE);
+  return fallback ? { text: fallback.text, language: DEFAULT_LANGUAGE } : null;
+};
+
+/**
+ * Name of a body as said in a language, e.g. "el Sol"; the English name where
+ * there is no other.
+ * @param name - Body name.
+ * @param language - Language wanted.
+ */
+export const bodyTitle = (name: string, language: LanguageCode): string =>
+  find(name, language)?.title ?? name;
+
+/**
+ * Welcome line for a body, e.g. "Bienvenido a Marte.".
+ * @param name - Body name.
+ * @param language - Language to welcome in.
+ */
+export const welcomeText = (name: string, language: LanguageCode): string =>
+  WELCOME[language](bodyTitle(name, language));
@@ -1,64 +1,33 @@
+import { ChoiceUI } from "./choiceUi";
 import { eventBus, VoiceIntentEvent } from "./eventBus";
+import { IntentParser, grammarFor } from "./grammar";
+import { LanguageCode } from "./language";
+import { LearnedAliases } from "./learnedAliases";
+import { FACT_BODIES } from "./planetFacts";
+import { SttProvider, SttRequest, SttResult, SttStream } from "./sttProviders";
+import { VoiceActivityDetector } from "./voiceActivity";
 
 type VoiceUIBindings = {
   button?: HTMLButtonElement | null;
   status?: HTMLElement | null;
   transcript?: HTMLElement | null;
   container?: HTMLElement | null;
+  choices?: HTMLElement | null;
 };
 
-type TranscriptChunk = {
-  text?: string;
-  start?: number | null;
-  end?: number | null;
-  speaker?: string | number | null;
+// How speech is captured for the next utterance.
+export type VoiceCaptureConfig = {
+  provider: SttProvider;
+  streaming: boolean; // send audio whilst recording and show interim transcripts
+  stopOnSilence: boolean; // end the utterance when the speaker stops
+  language: LanguageCode; // language spoken, for the recogniser and the grammar
 };
 
-type TranscriptResponse = {
-  transcript?: string | null;
-  text?: string | null;
-  chunks?: TranscriptChunk[];
-  words?: TranscriptChunk[];
-  segments?: TranscriptChunk[];
-  language?: string | null;
-};
-
-const DEFAULT_LANGUAGE = "en";
-
-const COMMAND_SYNONYMS = {
-  open: [
-    "open",
-    "go to",
-    "goto",
-    "show",
-    "focus on",
-    "focus",
-    "move to",
-    "move toward",
-    "move over to",
-    "bring me to",
-    "take me to",
-  ],
-};
+// Recorder chunk length when streaming, in ms.
+const STREAM_TIMESLICE = 250;
 
-const COURTESY_WORDS = [
-  "please",
-  "now",
-  "thanks",
-  "thank",
-  "you",
-  "planet",
-  "the",
-  "a",
-  "to",
-  "me",
-  "about",
-  "tell",
-  "would",
-  "could",
-  "can",
-  "give"
-];
+// Bodies matched with less confidence than this are confirmed before going to them.
+const CONFIRM_THRESHOLD = 0.7;
 
 export class VoiceNavigationController {
   private enabled = false;
@@ -67,12 +36,32 @@ export class VoiceNavigationController {
   private recorder: MediaRecorder | null = null;
   private chunks: Blob[] = [];
   private ui: VoiceUIBindings = {};
-  private readonly aliases: Map<string, string[]> = new Map();
+  private readonly parsers = new Map<LanguageCode, IntentParser>();
   private stopTimer: number | null = null;
   private readonly maxRecordingMs = 5000;
-
-  constructor(private readonly planetNames: string[], private readonly languageCode: string = DEFAULT_LANGUAGE) {
-    this.prepareAliases();
+  // Longer cap when silence ends the utterance, so long questions are not cut off
+  private readonly maxDetectedRecordingMs = 10000;
+  private activeProvider: SttProvider | null = null;
+  private stream: SttStream | null = null;
+  private readonly voiceActivity = new VoiceActivityDetector(() => this.stopRecording());
+  private wakePhrase: string | null = null; // set whilst the wake phrase is armed
+  private announcedListening = false;
+  private readonly learned = new LearnedAliases();
+  private choiceUI: ChoiceUI | null = null;
+  private choiceParser: IntentParser | null = null; // reads spoken answers to the open question
+  private choices: string[] = [];
+  private question = 0; // moves on when a question is asked or dropped, so a stale answer is ignored
+  private utteranceEndedAt: number | null = null; // for the latency of its transcript
+
+  /**
+   * @constructor
+   * @param planetNames - Bodies that can be named in commands.
+   * @param getConfig - Returns how to capture the next utterance.
+   */
+  constructor(
+    private readonly planetNames: string[],
+    private readonly getConfig: () => VoiceCaptureConfig
+  ) {
     eventBus.on("voiceToggle", ({ enabled }) => {
       this.setEnabled(enabled);
     });
@@ -90,10 +79,31 @@ export class VoiceNavigationController {
         });
       }
     });
+    eventBus.on("wakeWordArmed", ({ armed, phrase, error }) => {
+      this.wakePhrase = armed ? phrase : null;
+      this.renderState();
+      if (error && this.enabled) {
+        this.notifyStatus(error);
+      }
+    });
+    // "Hey Solar" starts a command; "Hey Solar, open Mars" is one
+    eventBus.on("wakeWordDetected", ({ command }) => {
+      if (!this.enabled || this.listening) {
+        return;
+      }
+      if (command) {
+        this.handleResult({ transcript: command });
+        return;
+      }
+      this.startRecording().catch((error) => {
+        this.handleError("Microphone access failed", error);
+      });
+    });
   }
 
   attachUI(bindings: VoiceUIBindings): void {
     this.ui = bindings;
+    this.choiceUI = new ChoiceUI(this.ui.choices ?? null);
     if (this.ui.button) {
       this.ui.button.addEventListener("click", () => {
         if (!this.enabled) {
@@ -124,35 +134,25 @@ export class VoiceNavigationController {
     this.renderState();
   }
 
-  private prepareAliases(): void {
-    for (const name of this.planetNames) {
-      const base = name.toLowerCase();
-      const aliasList = new Set<string>();
-      aliasList.add(base);
-      aliasList.add(`the ${base}`);
-      if (base.endsWith("'s rings")) {
-        aliasList.add(base.replace("'s", ""));
-      }
-      if (base === "sun") {
-        aliasList.add("sol");
-        aliasList.add("the star");
-      }
-      if (base === "earth") {
-        aliasList.add("terra");
-        aliasList.add("the world");
-      }
-      if (base === "moon") {
-        aliasList.add("luna");
-        aliasList.add("earth's moon");
-      }
-      this.aliases.set(name, Array.from(aliasList));
-    }
+  /**
+   * Forgets the names learned from answers to "Did you mean…?".
+   */
+  forgetCorrections(): void {
+    this.learned.clear();
+    this.parsers.clear();
   }
 
   private async startRecording(): Promise<void> {
     if (!this.enabled || this.listening) {
       return;
     }
+    const config = this.getConfig();
+    const { provider } = config;
+    this.activeProvider = provider;
+    if (provider.capturesAudio) {
+      await this.listenWith(provider, config.streaming);
+      return;
+    }
     if (typeof MediaRecorder === "undefined") {
       this.handleError("MediaRecorder is not supported in this browser");
       return;
@@ -168,9 +168,11 @@ export class VoiceNavigationController {
     this.recorder = new MediaRecorder(this.mediaStream, {
       mimeType: this.selectMimeType(),
     });
+    this.stream = config.streaming && provider.stream ? provider.stream(this.createRequest(undefined, true)) : null;
     this.recorder.addEventListener("dataavailable", (event) => {
       if (event.data && event.data.size > 0) {
         this.chunks.push(event.data);
+        this.stream?.send(event.data);
       }
     });
     this.recorder.addEventListener("stop", () => {
@@ -178,17 +180,50 @@ export class VoiceNavigationController {
     });
 
     try {
-      this.recorder.start(1000);
+      this.recorder.start(this.stream ? STREAM_TIMESLICE : 1000);
       this.listening = true;
       this.renderState();
       this.notifyStatus("Listening…");
-      this.armAutoStop();
+      if (config.stopOnSilence) {
+        this.voiceActivity.start(this.mediaStream);
+      }
+      this.armAutoStop(config.stopOnSilence ? this.maxDetectedRecordingMs : this.maxRecordingMs);
     } catch (error) {
       this.handleError("Failed to start recorder", error);
     }
   }
 
+  // Lets a provider that listens to the microphone itself take the utterance.
+  private async listenWith(provider: SttProvider, interim: boolean): Promise<void> {
+    this.listening = true;
+    this.renderState();
+    this.notifyStatus("Listening…");
+    this.armAutoStop(this.maxRecordingMs);
+
+    let result: SttResult | null;
+    try {
+      result = await provider.transcribe(this.createRequest(undefined, interim));
+    } catch (error) {
+      this.handleError("Speech recognition failed", error);
+      return;
+    } finally {
+      this.clearAutoStop();
+      this.activeProvider = null;
+    }
+
+    this.listening = false;
+    this.renderState();
+    this.handleResult(result);
+  }
+
   private stopRecording(): void {
+    if (this.activeProvider?.capturesAudio) {
+      this.utteranceEndedAt = performance.now();
+      this.clearAutoStop();
+      this.activeProvider.stop?.();
+      return;
+    }
+    this.voiceActivity.stop();
     if (!this.recorder || this.recorder.state === "inactive") {
       return;
     }
@@ -211,213 +246,206 @@ export class VoiceNavigationController {
 
   private async onRecordingStopped(): Promise<void> {
     const blob = this.composeBlob();
+    const provider = this.activeProvider ?? this.getConfig().provider;
+    const stream = this.stream;
+    this.activeProvider = null;
+    this.stream = null;
     this.listening = false;
+    this.utteranceEndedAt = performance.now();
     this.renderState();
     if (!blob) {
+      stream?.cancel();
       this.notifyStatus("No audio captured");
       return;
     }
     this.notifyStatus("Transcribing…");
     try {
-      const transcript = await this.requestTranscription(blob);
-      if (!transcript) {
-        this.handleError("No transcript returned");
-        return;
-      }
-      const normalized = transcript.toLowerCase().trim();
-      eventBus.emit("speechRecognized", {
-        transcript,
-        normalized,
-        final: true,
-      });
-      this.updateTranscript(transcript);
-      const intent = this.parseIntent(transcript, normalized);
-      if (intent) {
-        this.notifyStatus(this.intentSummary(intent));
-        window.setTimeout(() => {
-          eventBus.emit("voiceCommand", intent);
-        }, 25);
-      } else {
-        this.notifyStatus(`Did not understand: “${transcript}”`);
-      }
+      // A stream has had the audio already and only needs telling it has ended
+      const result = stream ? await stream.finish() : await provider.transcribe(this.createRequest(blob));
+      this.handleResult(result);
     } catch (error) {
       this.handleError("Transcription failed", error);
     }
   }
 
-  private composeBlob(): Blob | null {
-    if (this.chunks.length === 0) {
-      return null;
-    }
-    const type = this.recorder?.mimeType || "audio/webm";
-    return new Blob(this.chunks, { type });
+  private createRequest(audio?: Blob, interim = false): SttRequest {
+    return {
+      audio,
+      languageCode: this.getConfig().language,
+      candidates: this.planetNames,
+      aliases: this.learned.all(),
+      onInterim: interim ? this.onInterim : undefined,
+    };
   }
 
-  private async requestTranscription(blob: Blob): Promise<string | null> {
-    const audioBase64 = await this.blobToBase64(blob);
-    const response = await fetch("/api/stt/transcriptions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        audioBase64,
-        mimeType: blob.type,
-        languageCode: this.languageCode,
-        candidates: this.planetNames,
-        classify: true,
-      }),
-    });
-
-    if (!response.ok) {
-      const detail = await response.text();
-      throw new Error(`STT proxy error: ${response.status} ${detail}`);
-    }
-
-    const data: TranscriptResponse = await response.json();
-    // Prefer server-provided intent if available
-    const serverIntent: any = (data as any).intent;
-    if (serverIntent && typeof serverIntent === "object" && serverIntent.type) {
-      const mapped: VoiceIntentEvent | null = this.mapServerIntent(serverIntent);
-      if (mapped) {
-        eventBus.emit("voiceCommand", mapped);
-      }
-    }
-
-    const extracted = this.extractTranscript(data);
-    if (extracted) {
-      return extracted;
+  private onInterim = (transcript: string) => {
+    if (!this.listening) {
+      return;
     }
-    return null;
-  }
-
-  private parseIntent(transcript: string, normalized: string): VoiceIntentEvent | null {
-    if (!normalized) {
-      return null;
+    eventBus.emit("speechRecognized", {
+      transcript,
+      normalized: transcript.toLowerCase().trim(),
+      final: false,
+    });
+    this.updateTranscript(transcript);
+  };
+
+  private handleResult(result: SttResult | null): void {
+    const latencyMs = this.utteranceEndedAt === null ? null : Math.round(performance.now() - this.utteranceEndedAt);
+    this.utteranceEndedAt = null;
+    if (!result) {
+      this.handleError("No transcript returned");
+      return;
     }
-
-    const openPhrase = this.detectOpenPhrase(normalized);
-    if (openPhrase) {
-      const candidate = this.cleanCandidate(openPhrase);
-      const match = this.resolvePlanet(candidate);
-      if (match && match.score >= 0.45) {
-        return {
-          type: "open",
-          target: match.name,
-          confidence: match.score,
-          transcript,
-          normalized,
-        };
+    const normalized = result.transcript.toLowerCase().trim();
+    eventBus.emit("speechRecognized", {
+      transcript: result.transcript,
+      normalized,
+      final: true,
+    });
+    this.updateTranscript(result.transcript);
+    const parser = this.parserFor(this.getConfig().language);
+    // An answer to "Did you mean Mars or Moon?"; anything else drops the question
+    if (this.choiceUI?.isOpen()) {
+      const choice = this.choiceParser?.parseChoice(result.transcript, this.choices) ?? null;
+      if (choice !== null) {
+        const summary = choice < 0 ? "Cancelled" : `Chose ${this.choices[choice]}`;
+        eventBus.emit("voiceHeard", { transcript: result.transcript, intent: null, summary, latencyMs });
+        this.choiceUI.choose(choice);
+        return;
       }
-    }
-
-    return null;
+      // Dropped for a new command, whose status should stand
+      this.question++;
+      this.choiceParser = null;
+      this.choiceUI.choose(-1);
+    }
+    // The proxy classifies with the same grammar, so its intent is used as is
+    // when present; browser and mock transcripts are classified here
+    const classified = result.intent ? parser.accept(result.intent) : null;
+    const intent = classified ?? parser.parse(result.transcript);
+    let summary: string;
+    if (!intent) {
+      summary = "Did not understand";
+      this.notifyStatus(`Did not understand: “${result.transcript}”`);
+    } else if (this.needsConfirming(intent)) {
+      summary = this.confirm(intent, parser);
+    } else {
+      summary = this.dispatch(intent);
+    }
+    eventBus.emit("voiceHeard", { transcript: result.transcript, intent, summary, latencyMs });
   }
 
-  private matchesAny(text: string, phrases: string[]): boolean {
-    return phrases.some((phrase) => text.includes(phrase));
+  // Carries out an intent, returning the status shown for it.
+  private dispatch(intent: VoiceIntentEvent): string {
+    const summary = this.intentSummary(intent);
+    this.notifyStatus(summary);
+    window.setTimeout(() => {
+      eventBus.emit("voiceCommand", intent);
+    }, 25);
+    return summary;
   }
 
-  private detectOpenPhrase(text: string): string | null {
-    const patterns = [
-      /(?:open|go to|goto|show|focus on|focus)\s+(.+)/,
-      /(?:move to|move toward|move over to)\s+(.+)/,
-      /(?:bring me to|take me to)\s+(.+)/,
-    ];
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return match[1];
-      }
+  // A body is confirmed when others sounded nearly as close, or none sounded close.
+  private needsConfirming(intent: VoiceIntentEvent): intent is VoiceIntentEvent & { type: "open" | "narrate" } {
+    if ((intent.type !== "open" && intent.type !== "narrate") || !intent.target || !this.choiceUI) {
+      return false;
     }
-    return null;
+    return (intent.alternatives?.length ?? 0) > 0 || intent.confidence < CONFIRM_THRESHOLD;
   }
 
-  private cleanCandidate(raw: string): string {
-    const sanitized = raw
-      .replace(/[.?!,]/g, " ")
-      .split(/\s+/)
-      .filter((token) => token && !COURTESY_WORDS.includes(token))
-      .join(" ")
-      .trim();
-    if (sanitized) {
-      return sanitized;
-    }
-    return raw.replace(/[.?!,]/g, " ").trim();
-  }
-
-  private resolvePlanet(candidate: string): { name: string; score: number } | null {
-    if (!candidate) {
-      return null;
-    }
-    const normalizedCandidate = candidate.toLowerCase();
-    let best: { name: string; score: number } | null = null;
-    for (const name of this.planetNames) {
-      const aliases = this.aliases.get(name) ?? [name.toLowerCase()];
-      const score = Math.max(...aliases.map((alias) => this.similarity(alias, normalizedCandidate)));
-      if (!best || score > best.score) {
-        best = { name, score };
-      }
+  // Asks which body was meant and carries out the intent for it, returning the question.
+  private confirm(intent: VoiceIntentEvent & { type: "open" | "narrate" }, parser: IntentParser): string {
+    const choices = [intent.target, ...(intent.alternatives ?? [])];
+    const question =
+      choices.length > 1
+        ? `Did you mean ${choices.slice(0, -1).join(", ")} or ${choices[choices.length - 1]}?`
+        : `Did you mean ${intent.target}?`;
+    const asked = ++this.question;
+    this.choices = choices;
+    this.choiceParser = parser;
+    this.notifyStatus(question);
+    const answer = this.choiceUI!.ask(question, choices, choices.length > 1 ? "Neither" : "No");
+    // Listen for the answer straight away, as if the mic had been tapped
+    if (!this.listening && !this.activeProvider) {
+      this.startRecording().catch((error) => {
+        this.handleError("Microphone access failed", error);
+      });
     }
-    return best;
-  }
 
-  private similarity(reference: string, candidate: string): number {
-    if (!reference || !candidate) {
-      return 0;
-    }
-    if (reference === candidate) {
-      return 1;
-    }
-    if (reference.includes(candidate) || candidate.includes(reference)) {
-      return 0.85;
-    }
-    const tokenScore = this.tokenOverlap(reference, candidate);
-    const editScore = this.levenshteinSimilarity(reference, candidate);
-    return Math.max(tokenScore, editScore);
+    answer.then((index) => {
+      if (asked !== this.question) {
+        return;
+      }
+      this.choiceParser = null;
+      if (index < 0 || index >= choices.length) {
+        this.notifyStatus("Cancelled");
+        return;
+      }
+      const target = choices[index];
+      if (intent.spoken) {
+        this.learned.learn(intent.spoken, target);
+        this.parsers.clear();
+      }
+      this.dispatch({ ...intent, target, alternatives: undefined, confidence: 1 });
+    });
+    return question;
   }
 
-  private tokenOverlap(reference: string, candidate: string): number {
-    const refTokens = reference.split(/\s+/);
-    const candTokens = candidate.split(/\s+/);
-    const intersection = refTokens.filter((token) => candTokens.includes(token));
-    if (intersection.length === 0) {
-      return 0;
+  private parserFor(language: LanguageCode): IntentParser {
+    let parser = this.parsers.get(language);
+    if (!parser) {
+      parser = new IntentParser(this.planetNames, FACT_BODIES, grammarFor(language), this.learned.all());
+      this.parsers.set(language, parser);
     }
-    return (2 * intersection.length) / (refTokens.length + candTokens.length);
+    return parser;
   }
 
-  private levenshteinSimilarity(reference: string, candidate: string): number {
-    const distance = this.levenshtein(reference, candidate);
-    const maxLen = Math.max(reference.length, candidate.length) || 1;
-    return 1 - distance / maxLen;
-  }
-
-  private levenshtein(a: string, b: string): number {
-    const matrix: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
-    for (let i = 0; i <= a.length; i++) {
-      matrix[i][0] = i;
-    }
-    for (let j = 0; j <= b.length; j++) {
-      matrix[0][j] = j;
-    }
-    for (let i = 1; i <= a.length; i++) {
-      for (let j = 1; j <= b.length; j++) {
-        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j - 1] + cost
-        );
-      }
+  private composeBlob(): Blob | null {
+    if (this.chunks.length === 0) {
+      return null;
     }
-    return matrix[a.length][b.length];
+    const type = this.recorder?.mimeType || "audio/webm";
+    return new Blob(this.chunks, { type });
   }
 
   private intentSummary(intent: VoiceIntentEvent): string {
     switch (intent.type) {
       case "open":
         return `Opening ${intent.target}`;
+      case "narrate":
+        return intent.target ? `Telling you about ${intent.target}` : "Narrating";
+      case "next":
+        return "Next";
+      case "previous":
+        return "Going back";
+      case "repeat":
+        return "Repeating";
+      case "stop":
+        return "Stopping";
+      case "clock":
+        switch (intent.action) {
+          case "play":
+            return "Playing";
+          case "pause":
+            return "Pausing";
+          case "reverse":
+            return "Reversing time";
+          case "faster":
+            return "Speeding up";
+          case "slower":
+            return "Slowing down";
+          case "speed":
+            return `Speed ${intent.value}`;
+        }
+        break;
+      case "toggle": {
+        const verb = intent.value === undefined ? "Toggling" : intent.value ? "Showing" : "Hiding";
+        return `${verb} ${intent.target === "ambient" ? "ambient light" : intent.target}`;
+      }
+      case "zoom":
+        return `Zooming ${intent.direction}`;
+      case "query":
+        return "Answering";
       default:
         return "Command processed";
     }
@@ -428,6 +456,7 @@ export class VoiceNavigationController {
       this.ui.button.disabled = !this.enabled;
       this.ui.button.setAttribute("aria-pressed", String(this.listening));
       this.ui.button.classList.toggle("is-active", this.listening);
+      this.ui.button.classList.toggle("is-armed", this.enabled && !this.listening && this.wakePhrase !== null);
     }
     if (this.ui.container) {
       if (this.enabled) {
@@ -438,9 +467,15 @@ export class VoiceNavigationController {
     }
     if (!this.enabled) {
       this.notifyStatus("Voice control off");
+    } else if (!this.listening && this.wakePhrase) {
+      this.notifyStatus(`Listening for “${this.wakePhrase}”`);
     } else if (!this.listening) {
       this.notifyStatus("Voice control ready – tap the mic and speak");
     }
+    if (this.listening !== this.announcedListening) {
+      this.announcedListening = this.listening;
+      eventBus.emit("voiceListeningChanged", { listening: this.listening });
+    }
   }
 
   private updateTranscript(transcript: string): void {
@@ -461,6 +496,9 @@ export class VoiceNavigationController {
     this.notifyStatus(message);
     this.listening = false;
     this.clearAutoStop();
+    this.voiceActivity.stop();
+    this.stream?.cancel();
+    this.stream = null;
     this.renderState();
   }
 
@@ -474,22 +512,11 @@ export class VoiceNavigationController {
     return "audio/webm";
   }
 
-  private async blobToBase64(blob: Blob): Promise<string> {
-    const buffer = await blob.arrayBuffer();
-    let binary = "";
-    const bytes = new Uint8Array(buffer);
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
-  private armAutoStop(): void {
+  private armAutoStop(duration: number): void {
     this.clearAutoStop();
     this.stopTimer = window.setTimeout(() => {
       this.stopRecording();
-    }, this.maxRecordingMs);
+    }, duration);
   }
 
   private clearAutoStop(): void {
@@ -498,44 +525,4 @@ export class VoiceNavigationController {
       this.stopTimer = null;
     }
   }
-
-  private extractTranscript(data: TranscriptResponse): string | null {
-    if (!data) {
-      return null;
-    }
-    if (data.transcript && data.transcript.trim()) {
-      return data.transcript;
-    }
-    if (data.text && data.text.trim()) {
-      return data.text;
-    }
-    if (Array.isArray(data.words) && data.words.length > 0) {
-      return data.words.map((word) => word.text ?? "").join(" ").trim() || null;
-    }
-    if (Array.isArray(data.chunks) && data.chunks.length > 0) {
-      return data.chunks.map((chunk) => chunk.text ?? "").join(" ").trim() || null;
-    }
-    if (Array.isArray(data.segments) && data.segments.length > 0) {
-      return data.segments.map((segment) => segment.text ?? "").join(" ").trim() || null;
-    }
-    return null;
-  }
-
-  private mapServerIntent(si: any): VoiceIntentEvent | null {
-    const type = String(si.type || "").toLowerCase();
-    if (type === "open" && typeof si.target === "string") {
-      // trust server target if it matches a known body
-      const target = this.planetNames.find((p) => p.toLowerCase() === si.target.toLowerCase());
-      if (target) {
-        return {
-          type: "open",
-          target,
-          confidence: typeof si.confidence === "number" ? si.confidence : 0.9,
-          transcript: si.transcript || "",
-          normalized: si.normalized || "",
-        };
-      }
-    }
-    return null;
-  }
 }
@@ -0,0 +1,342 @@
+import planetData from "../planets.json";
+import type { Body } from "../setup/planetary-object";
+import type { VoiceIntentEvent } from "./eventBus";
+import { DEFAULT_LANGUAGE, LanguageCode } from "./language";
+import { bodyTitle } from "./narrationText";
+
+export type QueryIntent = Extract<VoiceIntentEvent, { type: "query" }>;
+export type FactField = QueryIntent["field"];
+
+const KM_PER_MILE = 1.609344;
+const HOURS_PER_DAY = 24;
+const DAYS_PER_YEAR = 365.25;
+
+// Rings are part of their planet rather than a body to ask about.
+const bodies: Body[] = (planetData as Body[]).filter((body) => body.type !== "ring");
+
+/**
+ * Names of every body questions can be asked about, including moons that
+ * cannot be flown to.
+ */
+export const FACT_BODIES: string[] = bodies.map((body) => body.name);
+
+type Comparison = "greater" | "less";
+
+// How answers are worded in a language; values arrive formatted, names as titles.
+type AnswerWording = {
+  title: (body: Body) => string; // e.g. "the Sun"
+  units: Record<"km" | "millionKm" | "miles" | "hours" | "days" | "earthDays" | "earthYears", string>;
+  unknown: (name: string) => string;
+  radius: (name: string, km: string, miles: string) => string;
+  distance: (name: string, distance: string, parent: string) => string;
+  period: (name: string, time: string, parent: string) => string;
+  daylength: (name: string, time: string) => string;
+  tilt: (name: string, degrees: string) => string;
+  parent: (name: string, parent: string) => string;
+  // Answers about the Sun, which orbits nothing
+  centre: Record<"distance" | "period" | "parent", (name: string) => string>;
+  same: (first: string, second: string, value: string) => string;
+  compare: (subject: string, verb: string, object: string, subjectValue: string, objectValue: string) => string;
+  // How each comparison is worded, e.g. "Venus is smaller than Earth"
+  comparisons: Record<Exclude<FactField, "parent">, Record<Comparison, string>>;
+  // Joins words that run together, e.g. "de el Sol" into "del Sol"
+  contract?: (text: string) => string;
+};
+
+const ANSWERS: Record<LanguageCode, AnswerWording> = {
+  en: {
+    // "the Sun" and "the Moon", but "Mars"
+    title: (body) => (body.type === "star" || body.name === "Moon" ? `the ${body.name}` : body.name),
+    units: {
+      km: "km",
+      millionKm: "million km",
+      miles: "miles",
+      hours: "hours",
+      days: "days",
+      earthDays: "Earth days",
+      earthYears: "Earth years",
+    },
+    unknown: (name) => `I don't know about ${name}.`,
+    radius: (name, km, miles) => `${name} has a radius of about ${km} (${miles}).`,
+    distance: (name, distance, parent) => `${name} orbits about ${distance} from ${parent}.`,
+    period: (name, time, parent) => `${name} takes ${time} to orbit ${parent}.`,
+    daylength: (name, time) => `${name} turns once every ${time}.`,
+    tilt: (name, degrees) => `${name} is tilted ${degrees} on its axis.`,
+    parent: (name, parent) => `${name} orbits ${parent}.`,
+    centre: {
+      distance: (name) => `${name} is at the centre of the solar system.`,
+      period: (name) => `${name} is at the centre of the solar system, so it has no orbit here.`,
+      parent: (name) => `${name} is the star at the centre of the solar system.`,
+    },
+    same: (first, second, value) => `${first} and ${second} are the same: ${value}.`,
+    compare: (subject, verb, object, subjectValue, objectValue) =>
+      `${subject} ${verb} than ${object} (${subjectValue} against ${objectValue}).`,
+    comparisons: {
+      radius: { greater: "is bigger", less: "is smaller" },
+      distance: { greater: "is farther from the Sun", less: "is closer to the Sun" },
+      period: { greater: "has a longer year", less: "has a shorter year" },
+      daylength: { greater: "has a longer day", less: "has a shorter day" },
+      tilt: { greater: "is more tilted", less: "is less tilted" },
+    },
+  },
+  es: {
+    title: (body) => bodyTitle(body.name, "es"),
+    units: {
+      km: "km",
+      millionKm: "millones de km",
+      miles: "millas",
+      hours: "horas",
+      days: "días",
+      earthDays: "días terrestres",
+      earthYears: "años terrestres",
+    },
+    unknown: (name) => `No sé nada sobre ${name}.`,
+    radius: (name, km, miles) => `${name} tiene un radio de unos ${km} (${miles}).`,
+    distance: (name, distance, parent) => `${name} orbita a unos ${distance} de ${parent}.`,
+    period: (name, time, parent) => `${name} tarda ${time} en orbitar alrededor de ${parent}.`,
+    daylength: (name, time) => `${name} gira una vez cada ${time}.`,
+    tilt: (name, degrees) => `El eje de ${name} está inclinado ${degrees}.`,
+    parent: (name, parent) => `${name} orbita alrededor de ${parent}.`,
+    centre: {
+      distance: (name) => `${name} está en el centro del sistema solar.`,
+      period: (name) => `${name} está en el centro del sistema solar, así que aquí no tiene órbita.`,
+      parent: (name) => `${name} es la estrella del centro del sistema solar.`,
+    },
+    same: (first, second, value) => `${first} y ${second} son iguales: ${value}.`,
+    compare: (subject, verb, object, subjectValue, objectValue) =>
+      `${subject} ${verb} que ${object} (${subjectValue} frente a ${objectValue}).`,
+    // Worded so the adjective need not agree with the body
+    comparisons: {
+      radius: { greater: "tiene un radio mayor", less: "tiene un radio menor" },
+      distance: { greater: "está más lejos del Sol", less: "está más cerca del Sol" },
+      period: { greater: "tiene un año más largo", less: "tiene un año más corto" },
+      daylength: { greater: "tiene un día más largo", less: "tiene un día más corto" },
+      tilt: { greater: "tiene el eje más inclinado", less: "tiene el eje menos inclinado" },
+    },
+    contract: (text) => text.replace(/\b(a|de) el\b/g, "$1l"),
+  },
+  fr: {
+    title: (body) => bodyTitle(body.name, "fr"),
+    units: {
+      km: "km",
+      millionKm: "millions de km",
+      miles: "milles",
+      hours: "heures",
+      days: "jours",
+      earthDays: "jours terrestres",
+      earthYears: "années terrestres",
+    },
+    unknown: (name) => `Je ne connais pas ${name}.`,
+    radius: (name, km, miles) => `${name} a un rayon d'environ ${km} (${miles}).`,
+    distance: (name, distance, parent) => `${name} orbite à environ ${distance} de ${parent}.`,
+    period: (name, time, parent) => `${name} met ${time} à faire le tour de ${parent}.`,
+    daylength: (name, time) => `${name} tourne sur son axe en ${time}.`,
+    tilt: (name, degrees) => `L'axe de ${name} est incliné de ${degrees}.`,
+    parent: (name, parent) => `${name} orbite autour de ${parent}.`,
+    centre: {
+      distance: (name) => `${name} est au centre du système solaire.`,
+      period: (name) => `${name} est au centre du système solaire, il n'a donc pas d'orbite ici.`,
+      parent: (name) => `${name} est l'étoile au centre du système solaire.`,
+    },
+    same: (first, second, value) => `${first} et ${second} sont identiques : ${value}.`,
+    compare: (subject, verb, object, subjectValue, objectValue) =>
+      `${subject} ${verb} que ${object} (${subjectValue} contre ${objectValue}).`,
+    // Worded so the adjective need not agree with the body
+    comparisons: {
+      radius: { greater: "a un rayon plus grand", less: "a un rayon plus petit" },
+      distance: { greater: "est plus loin du Soleil", less: "est plus près du Soleil" },
+      period: { greater: "a une année plus longue", less: "a une année plus courte" },
+      daylength: { greater: "a une journée plus longue", less: "a une journée plus courte" },
+      tilt: { greater: "a un axe plus incliné", less: "a un axe moins incliné" },
+    },
+    contract: (text) =>
+      text
+        .replace(/\bde le /g, "du ")
+        .replace(/\bde les /g, "des ")
+        .replace(/\b(d|qu)e (?=[aeiouyàâéèêîôûAEIOUYÀÂÉÈÊÎÔÛ])/g, "$1'"),
+  },
+};
+
+const findBody = (name: string): Body | undefined =>
+  bodies.find((body) => body.name.toLowerCase() === name.toLowerCase());
+
+const round = (value: number, language: LanguageCode, digits = 3): string =>
+  Number(value.toPrecision(digits)).toLocaleString(language);
+
+const capitalise = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Radius in km; planets.json gives the Sun and planets in miles but moons in km.
+ * @param body - Body to measure.
+ */
+const radiusKm = (body: Body): number =>
+  body.type === "moon" ? body.radius : body.radius * KM_PER_MILE;
+
+/**
+ * Average distance from the body it orbits, in millions of km.
+ * @param body - Body to measure.
+ */
+const orbitalDistance = (body: Body): number => body.orbit?.semiMajorAxis ?? body.distance;
+
+/**
+ * Distance from the Sun in millions of km, taking moons at their planet's distance.
+ * @param body - Body to measure.
+ */
+const solarDistance = (body: Body): number => {
+  const parent = body.orbits ? findBody(body.orbits) : undefined;
+  if (!parent) {
+    return 0;
+  }
+  return parent.type === "star" ? orbitalDistance(body) : solarDistance(parent);
+};
+
+// Joins and capitalises a finished sentence.
+const finish = (text: string, language: LanguageCode): string =>
+  capitalise(ANSWERS[language].contract?.(text) ?? text);
+
+const formatUnit = (value: number, unit: keyof AnswerWording["units"], language: LanguageCode): string =>
+  `${round(value, language)} ${ANSWERS[language].units[unit]}`;
+
+const formatDistance = (millionKm: number, language: LanguageCode): string =>
+  millionKm < 1 ? formatUnit(millionKm * 1e6, "km", language) : formatUnit(millionKm, "millionKm", language);
+
+const formatHours = (hours: number, language: LanguageCode): string =>
+  hours > 2 * HOURS_PER_DAY
+    ? `${formatUnit(hours, "hours", language)} (${formatUnit(hours / HOURS_PER_DAY, "earthDays", language)})`
+    : formatUnit(hours, "hours", language);
+
+const formatDays = (days: number, language: LanguageCode): string =>
+  days > 2 * DAYS_PER_YEAR
+    ? `${formatUnit(days, "earthDays", language)} (${formatUnit(days / DAYS_PER_YEAR, "earthYears", language)})`
+    : formatUnit(days, "earthDays", language);
+
+/**
+ * @returns the value compared for a field, in a unit shared by every body.
+ */
+const compareValue = (field: Exclude<FactField, "parent">, body: Body): number => {
+  switch (field) {
+    case "radius":
+      return radiusKm(body);
+    case "distance":
+      return solarDistance(body);
+    case "period":
+      return body.period;
+    case "daylength":
+      return body.daylength;
+    case "tilt":
+      return body.tilt;
+  }
+};
+
+const formatValue = (field: Exclude<FactField, "parent">, body: Body, language: LanguageCode): string => {
+  switch (field) {
+    case "radius":
+      return formatUnit(radiusKm(body), "km", language);
+    case "distance":
+      return formatDistance(solarDistance(body), language);
+    case "period":
+      return formatUnit(body.period, "days", language);
+    case "daylength":
+      return formatUnit(body.daylength, "hours", language);
+    case "tilt":
+      return `${round(body.tilt, language)}°`;
+  }
+};
+
+/**
+ * Answers a question about a single body.
+ * @param field - What was asked.
+ * @param body - Body asked about.
+ * @param language - Language to answer in.
+ */
+const describe = (field: FactField, body: Body, language: LanguageCode): string => {
+  const words = ANSWERS[language];
+  const name = words.title(body);
+  const parent = body.orbits ? findBody(body.orbits) : undefined;
+
+  switch (field) {
+    case "radius":
+      return finish(
+        words.radius(
+          name,
+          formatUnit(radiusKm(body), "km", language),
+          formatUnit(radiusKm(body) / KM_PER_MILE, "miles", language)
+        ),
+        language
+      );
+    case "distance":
+      return finish(
+        parent
+          ? words.distance(name, formatDistance(orbitalDistance(body), language), words.title(parent))
+          : words.centre.distance(name),
+        language
+      );
+    case "period":
+      return finish(
+        parent
+          ? words.period(name, formatDays(body.period, language), words.title(parent))
+          : words.centre.period(name),
+        language
+      );
+    case "daylength":
+      return finish(words.daylength(name, formatHours(body.daylength, language)), language);
+    case "tilt":
+      return finish(words.tilt(name, `${round(body.tilt, language)}°`), language);
+    case "parent":
+      return finish(parent ? words.parent(name, words.title(parent)) : words.centre.parent(name), language);
+  }
+};
+
+/**
+ * Answers a comparison between two bodies, worded the way the question leaned
+ * where possible, e.g. "which is smaller" gets "Mars is smaller than Venus".
+ */
+const compare = (
+  field: Exclude<FactField, "parent">,
+  first: Body,
+  second: Body,
+  comparison: Comparison,
+  language: LanguageCode
+): string => {
+  const words = ANSWERS[language];
+  const a = compareValue(field, first);
+  const b = compareValue(field, second);
+  if (a === b) {
+    return finish(words.same(words.title(first), words.title(second), formatValue(field, first, language)), language);
+  }
+  const firstWins = comparison === "greater" ? a > b : a < b;
+  const [subject, object] = firstWins ? [first, second] : [second, first];
+  return finish(
+    words.compare(
+      words.title(subject),
+      words.comparisons[field][comparison],
+      words.title(object),
+      formatValue(field, subject, language),
+      formatValue(field, object, language)
+    ),
+    language
+  );
+};
+
+/**
+ * Answers a question about the planets from the local planet data.
+ * @param intent - Query to answer.
+ * @param focus - Body in focus, for questions such as "how big is it".
+ * @param language - Language to answer in.
+ * @returns the answer, ready to show or speak.
+ */
+export const answerQuery = (intent: QueryIntent, focus: string, language: LanguageCode = DEFAULT_LANGUAGE): string => {
+  const body = findBody(intent.target || focus);
+  if (!body) {
+    return finish(ANSWERS[language].unknown(intent.target || focus), language);
+  }
+
+  const other = intent.other ? findBody(intent.other) : undefined;
+  if (!other || other === body) {
+    return describe(intent.field, body, language);
+  }
+  if (intent.field === "parent") {
+    return `${describe("parent", body, language)} ${describe("parent", other, language)}`;
+  }
+  return compare(intent.field, body, other, intent.comparison ?? "greater", language);
+};
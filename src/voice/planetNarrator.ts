@@ -1,14 +1,17 @@
 import narrationData from "./narration-data.json";
+import { DEFAULT_LANGUAGE, LanguageCode, createLocalizedAudio } from "./language";
+import { narrationText } from "./narrationText";
+import { SpeechSynth } from "./speech";
 
 type NarrationEntry = {
   name: string;
-  voiceId: string;
+  voiceId?: string; // bodies without a voice have no clip and are always spoken
   text: string;
 };
 
 type NarrationRecord = NarrationEntry & {
   slug: string;
-  audioPath: string;
+  file: string;
 };
 
 const ENTRIES: NarrationRecord[] = (narrationData as NarrationEntry[]).map((entry) => {
@@ -16,19 +19,49 @@ const ENTRIES: NarrationRecord[] = (narrationData as NarrationEntry[]).map((entr
   return {
     ...entry,
     slug,
-    audioPath: `/audio/narration-${slug}.mp3`,
+    file: `narration-${slug}.mp3`,
   };
 });
 
+// What is being narrated, for captions to follow.
+export type NarrationPlayback =
+  | {
+      kind: "clip";
+      name: string;
+      file: string; // clip file name, e.g. "narration-mars.mp3"
+      language: LanguageCode; // language asked for; the clip may be English instead
+      audio: HTMLAudioElement;
+    }
+  | {
+      kind: "speech";
+      name: string;
+      text: string;
+      language: LanguageCode; // language of the text
+      utterance: SpeechSynthesisUtterance;
+    };
+
 const ENTRY_BY_NAME = new Map<string, NarrationRecord>(
   ENTRIES.map((entry) => [entry.name.toLowerCase(), entry])
 );
 
 export class PlanetNarrator {
   private readonly clips = new Map<string, HTMLAudioElement>();
+  private readonly missing = new Set<string>(); // clips found not to exist, by key
   private current: HTMLAudioElement | null = null;
+  private spoken: SpeechSynthesisUtterance | null = null;
+  private listeners = new Set<(playback: NarrationPlayback | null) => void>();
 
-  constructor() {}
+  /**
+   * Plays the narration clip for a body, in the chosen language where it has one,
+   * or has the browser speak its narration where there is no clip at all.
+   * @constructor
+   * @param getLanguage - Returns the language to narrate in.
+   * @param speech - Speaks narration that has no clip.
+   */
+  constructor(
+    private readonly getLanguage: () => LanguageCode = () => DEFAULT_LANGUAGE,
+    private readonly speech: SpeechSynth | null = null
+  ) {}
 
   play(target: string): void {
     if (!target) {
@@ -39,30 +72,75 @@ export class PlanetNarrator {
       console.warn("[voice][narrator] Unknown narration target", target);
       return;
     }
+    this.stop();
     const clip = this.getClip(entry);
     if (!clip) {
-      console.warn("[voice][narrator] Audio clip missing for", entry.name);
+      this.speak(entry);
       return;
     }
-    this.stop();
     this.current = clip;
     this.current.currentTime = 0;
+    this.notify({ kind: "clip", name: entry.name, file: entry.file, language: this.getLanguage(), audio: clip });
     const playPromise = this.current.play();
     if (playPromise?.catch) {
       playPromise.catch((error) => {
-        console.error("[voice][narrator] Failed to play narration", error);
+        // A clip that fails to load is spoken or replaced instead
+        if (!clip.error) {
+          console.error("[voice][narrator] Failed to play narration", error);
+        }
       });
     }
   }
 
   stop(): void {
+    const playing = this.spoken !== null || this.current !== null;
+    if (this.spoken) {
+      this.speech?.stop(this.spoken);
+      this.spoken = null;
+    }
     if (this.current) {
       this.current.pause();
       this.current.currentTime = 0;
       this.current = null;
     }
+    if (playing) {
+      this.notify(null);
+    }
   }
 
+  pause(): void {
+    this.current?.pause();
+    if (this.speech?.isSpeaking(this.spoken)) {
+      this.speech.pause();
+    }
+  }
+
+  resume(): void {
+    if (this.speech?.isSpeaking(this.spoken)) {
+      this.speech.resume();
+      return;
+    }
+    if (!this.current || !this.current.paused) {
+      return;
+    }
+    const playPromise = this.current.play();
+    if (playPromise?.catch) {
+      playPromise.catch((error) => {
+        console.error("[voice][narrator] Failed to resume narration", error);
+      });
+    }
+  }
+
+  /**
+   * Listens for narration starting and ending.
+   * @param listener - Called with what is being narrated, or null once nothing is.
+   * @returns a function that stops listening.
+   */
+  onChange = (listener: (playback: NarrationPlayback | null) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
   preload(target: string): void {
     const entry = this.lookup(target);
     if (entry) {
@@ -79,14 +157,56 @@ export class PlanetNarrator {
   }
 
   private getClip(entry: NarrationRecord): HTMLAudioElement | null {
-    if (this.clips.has(entry.slug)) {
-      return this.clips.get(entry.slug) ?? null;
+    const language = this.getLanguage();
+    const key = `${language}/${entry.slug}`;
+    if (!entry.voiceId || this.missing.has(key)) {
+      return null;
     }
-    const audio = new Audio(entry.audioPath);
-    audio.preload = "auto";
-    this.clips.set(entry.slug, audio);
+    if (this.clips.has(key)) {
+      return this.clips.get(key) ?? null;
+    }
+    const audio = createLocalizedAudio(entry.file, language, () => {
+      this.missing.add(key);
+      this.clips.delete(key);
+      // Speak instead if the clip was wanted now
+      if (this.current === audio) {
+        this.current = null;
+        this.speak(entry);
+      }
+    });
+    audio.addEventListener("ended", () => {
+      if (this.current === audio) {
+        this.current = null;
+        this.notify(null);
+      }
+    });
+    this.clips.set(key, audio);
     return audio;
   }
+
+  private speak(entry: NarrationRecord): void {
+    const narration = narrationText(entry.name, this.getLanguage());
+    if (!narration || !this.speech) {
+      console.warn("[voice][narrator] Audio clip missing for", entry.name);
+      return;
+    }
+    const utterance = this.speech.speak(narration.text, narration.language, () => {
+      if (this.spoken === utterance) {
+        this.spoken = null;
+        this.notify(null);
+      }
+    });
+    this.spoken = utterance;
+    if (utterance) {
+      this.notify({ kind: "speech", name: entry.name, ...narration, utterance });
+    }
+  }
+
+  private notify(playback: NarrationPlayback | null): void {
+    for (const listener of this.listeners) {
+      listener(playback);
+    }
+  }
 }
 
 function slugify(value: string): string {
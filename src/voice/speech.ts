@@ -0,0 +1,117 @@
+import { LanguageCode } from "./language";
+
+// How the browser speaks when there is no recorded clip.
+export type SpeechSettings = {
+  voice: string; // voice name; empty for the browser's choice in the language spoken
+  rate: number;
+  pitch: number;
+};
+
+/**
+ * Voices the browser can speak with, labelled for the settings panel, with an
+ * "Automatic" entry that leaves the choice to the browser.
+ */
+export const speechVoiceOptions = (): Record<string, string> => {
+  const voices = typeof speechSynthesis === "undefined" ? [] : speechSynthesis.getVoices();
+  return {
+    Automatic: "",
+    ...Object.fromEntries(voices.map((voice) => [`${voice.name} (${voice.lang})`, voice.name])),
+  };
+};
+
+export class SpeechSynth {
+  private current: SpeechSynthesisUtterance | null = null;
+
+  /**
+   * Speaks text with the Web Speech API, one utterance at a time, for narration
+   * and answers that have no recorded clip.
+   * @constructor
+   * @param getSettings - Returns the voice, rate and pitch to speak with.
+   */
+  constructor(private readonly getSettings: () => SpeechSettings) {}
+
+  static isSupported(): boolean {
+    return typeof speechSynthesis !== "undefined" && typeof SpeechSynthesisUtterance !== "undefined";
+  }
+
+  /**
+   * Speaks text, cutting off anything already being spoken.
+   * @param text - Text to speak.
+   * @param language - Language the text is in.
+   * @param onEnd - Called once the text has been spoken, or could not be.
+   * @returns the utterance, to stop or check on later, or null if speech is not supported.
+   */
+  speak = (text: string, language: LanguageCode, onEnd?: () => void): SpeechSynthesisUtterance | null => {
+    if (!SpeechSynth.isSupported()) {
+      console.warn("[voice][speech] Speech synthesis is not supported");
+      return null;
+    }
+    this.stop();
+    const { voice, rate, pitch } = this.getSettings();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = language;
+    utterance.voice = this.pickVoice(voice, language);
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    const finish = () => {
+      if (this.current === utterance) {
+        this.current = null;
+      }
+      onEnd?.();
+    };
+    utterance.addEventListener("end", finish);
+    utterance.addEventListener("error", (event) => {
+      // Cancelling, or speaking over, an utterance ends it with an error
+      if (event.error !== "canceled" && event.error !== "interrupted") {
+        console.error("[voice][speech] Speech failed", event.error);
+      }
+      finish();
+    });
+    this.current = utterance;
+    speechSynthesis.speak(utterance);
+    return utterance;
+  };
+
+  /**
+   * @param utterance - Utterance to check on; any if left out.
+   * @returns whether it is still being spoken.
+   */
+  isSpeaking = (utterance?: SpeechSynthesisUtterance | null): boolean => {
+    return this.current !== null && (utterance === undefined || this.current === utterance);
+  };
+
+  /**
+   * Stops speaking.
+   * @param utterance - Only stop if this is what is being spoken.
+   */
+  stop = (utterance?: SpeechSynthesisUtterance | null) => {
+    if (!this.isSpeaking(utterance)) {
+      return;
+    }
+    this.current = null;
+    speechSynthesis.cancel();
+  };
+
+  pause = () => {
+    if (this.current) {
+      speechSynthesis.pause();
+    }
+  };
+
+  resume = () => {
+    if (this.current) {
+      speechSynthesis.resume();
+    }
+  };
+
+  // The chosen voice if it speaks the language, else the browser's pick for it.
+  private pickVoice(name: string, language: LanguageCode): SpeechSynthesisVoice | null {
+    const voices = speechSynthesis.getVoices().filter((voice) => voice.lang.toLowerCase().startsWith(language));
+    return (
+      voices.find((voice) => voice.name === name) ??
+      voices.find((voice) => voice.default) ??
+      voices[0] ??
+      null
+    );
+  }
+}
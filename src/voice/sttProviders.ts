@@ -0,0 +1,380 @@
+import { MOCK_TRANSCRIPTS } from "./mockTranscripts";
+
+export type SttProviderId = "elevenlabs" | "local" | "browser" | "mock";
+
+// Providers offered in the settings panel, by label.
+export const STT_PROVIDERS: Record<string, SttProviderId> = {
+  ElevenLabs: "elevenlabs",
+  "Local Server": "local",
+  Browser: "browser",
+  Mock: "mock",
+};
+
+export type SttRequest = {
+  audio?: Blob; // recorded utterance, for providers that do not capture audio
+  languageCode: string;
+  candidates: string[]; // body names, to help the recogniser and classifier
+  aliases?: Record<string, string>; // names the user has taught, by the words spoken
+  onInterim?: (transcript: string) => void; // partial transcripts, where supported
+};
+
+export type SttResult = {
+  transcript: string;
+  intent?: unknown; // intent classified by the provider, if any
+};
+
+// Audio sent to a provider while it is being recorded.
+export interface SttStream {
+  send(chunk: Blob): void;
+  // Ends the audio and waits for the final transcript
+  finish(): Promise<SttResult | null>;
+  cancel(): void;
+}
+
+export interface SttProvider {
+  // Whether the provider listens to the microphone itself rather than being
+  // handed a recording
+  readonly capturesAudio: boolean;
+  transcribe(request: SttRequest): Promise<SttResult | null>;
+  // Ends listening early, for providers that capture audio
+  stop?(): void;
+  // Opens a stream for audio as it is recorded, for providers that support it
+  stream?(request: SttRequest): SttStream;
+}
+
+// Longest wait for the final transcript once a stream ends, in ms.
+const STREAM_TIMEOUT = 15000;
+
+type TranscriptChunk = {
+  text?: string;
+  start?: number | null;
+  end?: number | null;
+  speaker?: string | number | null;
+};
+
+type StreamMessage =
+  | { type: "interim"; transcript: string }
+  | { type: "final"; transcript: string | null; intent?: unknown }
+  | { type: "error"; error: string };
+
+type TranscriptResponse = {
+  transcript?: string | null;
+  text?: string | null;
+  chunks?: TranscriptChunk[];
+  words?: TranscriptChunk[];
+  segments?: TranscriptChunk[];
+  language?: string | null;
+  intent?: unknown;
+};
+
+const extractTranscript = (data: TranscriptResponse): string | null => {
+  if (!data) {
+    return null;
+  }
+  if (data.transcript && data.transcript.trim()) {
+    return data.transcript;
+  }
+  if (data.text && data.text.trim()) {
+    return data.text;
+  }
+  if (Array.isArray(data.words) && data.words.length > 0) {
+    return data.words.map((word) => word.text ?? "").join(" ").trim() || null;
+  }
+  if (Array.isArray(data.chunks) && data.chunks.length > 0) {
+    return data.chunks.map((chunk) => chunk.text ?? "").join(" ").trim() || null;
+  }
+  if (Array.isArray(data.segments) && data.segments.length > 0) {
+    return data.segments.map((segment) => segment.text ?? "").join(" ").trim() || null;
+  }
+  return null;
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const buffer = await blob.arrayBuffer();
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Sends recordings to the STT proxy, which passes them on to one of its providers.
+ */
+export class ProxySttProvider implements SttProvider {
+  readonly capturesAudio = false;
+
+  /**
+   * @constructor
+   * @param provider - Proxy provider to use, e.g. "elevenlabs" or "local".
+   * @param route - Proxy route that accepts transcription requests.
+   */
+  constructor(
+    private readonly provider: string,
+    private readonly route = "/api/stt/transcriptions",
+    private readonly streamRoute = "/api/stt/stream"
+  ) {}
+
+  transcribe = async ({ audio, languageCode, candidates, aliases }: SttRequest): Promise<SttResult | null> => {
+    if (!audio) {
+      return null;
+    }
+    const audioBase64 = await blobToBase64(audio);
+    const response = await fetch(this.route, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        provider: this.provider,
+        audioBase64,
+        mimeType: audio.type,
+        languageCode,
+        candidates,
+        aliases,
+        classify: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      throw new Error(`STT proxy error: ${response.status} ${detail}`);
+    }
+
+    const data: TranscriptResponse = await response.json();
+    const transcript = extractTranscript(data);
+    return transcript ? { transcript, intent: data.intent } : null;
+  };
+
+  /**
+   * Streams audio to the proxy over a WebSocket. The proxy answers with interim
+   * transcripts whilst audio arrives, and a final transcript once it ends.
+   */
+  stream = ({ languageCode, candidates, aliases, onInterim }: SttRequest): SttStream => {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}${this.streamRoute}`);
+    const queue: (Blob | string)[] = [];
+    const send = (data: Blob | string) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        queue.push(data);
+      }
+    };
+
+    let settle: { resolve: (result: SttResult | null) => void; reject: (error: Error) => void } | null = null;
+    let failure: Error | null = null;
+    const fail = (error: Error) => {
+      failure = error;
+      settle?.reject(error);
+      settle = null;
+    };
+
+    socket.addEventListener("open", () => {
+      socket.send(JSON.stringify({ type: "start", provider: this.provider, languageCode, candidates, aliases, classify: true }));
+      for (const data of queue.splice(0)) {
+        socket.send(data);
+      }
+    });
+    socket.addEventListener("message", (event) => {
+      let message: StreamMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message.type === "interim") {
+        onInterim?.(message.transcript);
+      } else if (message.type === "final") {
+        const transcript = message.transcript?.trim();
+        settle?.resolve(transcript ? { transcript, intent: message.intent } : null);
+        settle = null;
+        socket.close();
+      } else if (message.type === "error") {
+        fail(new Error(`STT stream error: ${message.error}`));
+        socket.close();
+      }
+    });
+    socket.addEventListener("close", () => {
+      fail(new Error("STT stream closed before a transcript arrived"));
+    });
+
+    return {
+      send,
+      finish: () =>
+        new Promise<SttResult | null>((resolve, reject) => {
+          if (failure) {
+            reject(failure);
+            return;
+          }
+          const timer = window.setTimeout(() => {
+            fail(new Error("STT stream timed out"));
+            socket.close();
+          }, STREAM_TIMEOUT);
+          settle = {
+            resolve: (result) => {
+              window.clearTimeout(timer);
+              resolve(result);
+            },
+            reject: (error) => {
+              window.clearTimeout(timer);
+              reject(error);
+            },
+          };
+          send(JSON.stringify({ type: "stop" }));
+        }),
+      cancel: () => {
+        settle = null;
+        socket.close();
+      },
+    };
+  };
+}
+
+// The parts of the Web Speech API used here, which the DOM typings leave out.
+export interface SpeechRecognizer {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  processLocally?: boolean; // on-device recognition, where supported
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type OnDeviceOptions = { langs: string[]; processLocally: boolean };
+
+export type SpeechRecognizerConstructor = {
+  new (): SpeechRecognizer;
+  // On-device model availability, where supported
+  available?(options: OnDeviceOptions): Promise<"available" | "downloadable" | "downloading" | "unavailable">;
+  install?(options: OnDeviceOptions): Promise<boolean>;
+};
+
+/**
+ * @returns the browser's speech recognition constructor, or null if it has none.
+ */
+export const getSpeechRecognition = (): SpeechRecognizerConstructor | null => {
+  const global = window as unknown as Record<string, SpeechRecognizerConstructor | undefined>;
+  return global.SpeechRecognition ?? global.webkitSpeechRecognition ?? null;
+};
+
+/**
+ * Recognises speech in the browser with the Web Speech API, so no proxy is needed.
+ * Some browsers still send the audio to their own recognition service.
+ */
+export class BrowserSttProvider implements SttProvider {
+  readonly capturesAudio = true;
+  private recognizer: SpeechRecognizer | null = null;
+
+  transcribe = ({ languageCode, onInterim }: SttRequest): Promise<SttResult | null> => {
+    const Recognizer = getSpeechRecognition();
+    if (!Recognizer) {
+      return Promise.reject(new Error("Speech recognition is not supported in this browser"));
+    }
+    this.recognizer?.stop();
+
+    return new Promise((resolve, reject) => {
+      const recognizer = new Recognizer();
+      recognizer.lang = languageCode;
+      recognizer.continuous = false;
+      recognizer.interimResults = !!onInterim;
+      recognizer.maxAlternatives = 1;
+
+      let transcript = "";
+      recognizer.onresult = ({ results }) => {
+        const text = Array.from(results)
+          .map((result) => result[0]?.transcript ?? "")
+          .join(" ")
+          .trim();
+        if (Array.from(results).every((result) => result.isFinal)) {
+          transcript = text;
+        } else {
+          onInterim?.(text);
+        }
+      };
+      recognizer.onerror = ({ error }) => {
+        // Silence is not a failure, just nothing to transcribe
+        if (error !== "no-speech" && error !== "aborted") {
+          reject(new Error(`Speech recognition error: ${error}`));
+        }
+      };
+      recognizer.onend = () => {
+        if (this.recognizer === recognizer) {
+          this.recognizer = null;
+        }
+        resolve(transcript ? { transcript } : null);
+      };
+
+      this.recognizer = recognizer;
+      recognizer.start();
+    });
+  };
+
+  stop = () => {
+    this.recognizer?.stop();
+  };
+}
+
+/**
+ * Returns scripted transcripts in turn without touching the microphone or network,
+ * so the voice pipeline can be exercised end to end.
+ */
+export class MockSttProvider implements SttProvider {
+  readonly capturesAudio = true;
+  private index = 0;
+  private pending: (() => void) | null = null;
+  private timers: number[] = [];
+
+  /**
+   * @constructor
+   * @param transcripts - Transcripts to return, repeated once exhausted.
+   * @param delay - How long each "utterance" takes, in ms.
+   */
+  constructor(
+    private readonly transcripts: string[] = MOCK_TRANSCRIPTS,
+    private readonly delay = 600
+  ) {}
+
+  transcribe = ({ onInterim }: SttRequest): Promise<SttResult | null> => {
+    const transcript = this.transcripts[this.index % this.transcripts.length];
+    this.index++;
+    return new Promise((resolve) => {
+      const finish = () => {
+        this.timers.forEach((timer) => window.clearTimeout(timer));
+        this.timers = [];
+        this.pending = null;
+        resolve(transcript ? { transcript } : null);
+      };
+      // Reveal the transcript a word at a time, as a recogniser would
+      if (onInterim && transcript) {
+        const words = transcript.split(" ");
+        words.slice(0, -1).forEach((_, index) => {
+          const delay = (this.delay * (index + 1)) / words.length;
+          this.timers.push(window.setTimeout(() => onInterim(words.slice(0, index + 1).join(" ")), delay));
+        });
+      }
+      this.timers.push(window.setTimeout(finish, this.delay));
+      this.pending = finish;
+    });
+  };
+
+  stop = () => {
+    this.pending?.();
+  };
+}
+
+/**
+ * Creates one of each provider, to be picked from by id.
+ */
+export const createSttProviders = (): Record<SttProviderId, SttProvider> => ({
+  elevenlabs: new ProxySttProvider("elevenlabs"),
+  local: new ProxySttProvider("local"),
+  browser: new BrowserSttProvider(),
+  mock: new MockSttProvider(),
+});
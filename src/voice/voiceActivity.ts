@@ -0,0 +1,104 @@
+export type VoiceActivityOptions = {
+  silenceMs: number; // quiet time after speech that ends the utterance
+  minSpeechMs: number; // speech needed before silence counts, so clicks are ignored
+  minThreshold: number; // lowest RMS level treated as speech
+  noiseRatio: number; // how far above the background level speech must be
+};
+
+const DEFAULT_OPTIONS: VoiceActivityOptions = {
+  silenceMs: 800,
+  minSpeechMs: 200,
+  minThreshold: 0.015,
+  noiseRatio: 3,
+};
+
+// How often the microphone level is sampled, in ms.
+const SAMPLE_INTERVAL = 50;
+
+// The background level is a low percentile of recent levels, loud or quiet, so the
+// pauses between words keep it near the room's noise even whilst someone talks.
+// Until the window fills it is the quietest level heard so far.
+const NOISE_WINDOW = 60; // samples, i.e. 3 s
+const NOISE_PERCENTILE = 0.1;
+
+export class VoiceActivityDetector {
+  private context: AudioContext | null = null;
+  private timer: number | null = null;
+  private readonly options: VoiceActivityOptions;
+  private noiseFloor = 0;
+  private levels: number[] = [];
+  private speechMs = 0;
+  private silenceMs = 0;
+
+  /**
+   * Watches the microphone level and reports when the speaker stops talking.
+   * The threshold follows the background noise, so it works in quiet rooms and
+   * noisy galleries alike.
+   * @constructor
+   * @param onSilence - Called once, when speech has been followed by silence.
+   * @param options - Timings and levels, overriding the defaults.
+   */
+  constructor(private onSilence: () => void, options: Partial<VoiceActivityOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Starts listening to a microphone stream.
+   * @param stream - Stream being recorded.
+   */
+  start = (stream: MediaStream) => {
+    this.stop();
+    this.context = new AudioContext();
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 1024;
+    this.context.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    this.noiseFloor = 0;
+    this.levels = [];
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.timer = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      this.process(Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length));
+    }, SAMPLE_INTERVAL);
+  };
+
+  /**
+   * Stops listening and releases the audio context.
+   */
+  stop = () => {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.context?.close().catch(() => {});
+    this.context = null;
+  };
+
+  private process(level: number): void {
+    const { silenceMs, minSpeechMs, minThreshold, noiseRatio } = this.options;
+    this.levels.push(level);
+    if (this.levels.length > NOISE_WINDOW) {
+      this.levels.shift();
+    }
+    const sorted = [...this.levels].sort((a, b) => a - b);
+    this.noiseFloor = sorted[Math.floor(sorted.length * NOISE_PERCENTILE)];
+    const threshold = Math.max(minThreshold, this.noiseFloor * noiseRatio);
+
+    if (level > threshold) {
+      this.speechMs += SAMPLE_INTERVAL;
+      this.silenceMs = 0;
+      return;
+    }
+
+    if (this.speechMs < minSpeechMs) {
+      return;
+    }
+    this.silenceMs += SAMPLE_INTERVAL;
+    if (this.silenceMs >= silenceMs) {
+      this.stop();
+      this.onSilence();
+    }
+  }
+}
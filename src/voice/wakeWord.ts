@@ -0,0 +1,238 @@
+import { eventBus } from "./eventBus";
+import { SpeechRecognizer, getSpeechRecognition } from "./sttProviders";
+
+export const DEFAULT_WAKE_PHRASE = "Hey Solar";
+
+// How closely heard words must match the wake phrase, from 0 to 1, overall and
+// word by word, so "the solar system" does not wake it.
+const MATCH_THRESHOLD = 0.75;
+const WORD_THRESHOLD = 0.6;
+
+// Pause before listening again after the recogniser stops, in ms.
+const RESTART_DELAY = 300;
+
+type WakeWordConfig = {
+  phrase: string;
+  languageCode: string;
+};
+
+const normalise = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+const similarity = (a: string, b: string): number =>
+  1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Finds the wake phrase in a transcript, allowing for near misses such as
+ * "hay solar".
+ * @param transcript - What was heard.
+ * @param phrase - Wake phrase to look for.
+ * @returns whatever was said after the phrase, or null if it was not heard.
+ */
+export const matchWakePhrase = (transcript: string, phrase: string): string | null => {
+  const words = normalise(transcript);
+  const target = normalise(phrase);
+  if (target.length === 0) {
+    return null;
+  }
+  for (let start = 0; start + target.length <= words.length; start++) {
+    const heard = words.slice(start, start + target.length);
+    if (
+      similarity(heard.join(" "), target.join(" ")) >= MATCH_THRESHOLD &&
+      heard.every((word, index) => similarity(word, target[index]) >= WORD_THRESHOLD)
+    ) {
+      return words.slice(start + target.length).join(" ");
+    }
+  }
+  return null;
+};
+
+export class WakeWordListener {
+  private recognizer: SpeechRecognizer | null = null;
+  private armed = false;
+  private paused = false;
+  private restartTimer: number | null = null;
+  private requests = 0; // counts setEnabled calls, so a slow one cannot undo a later one
+
+  /**
+   * Listens for a wake phrase in the browser, so commands need no click or gesture.
+   * Recognition runs on the device; browsers that cannot do that are not armed.
+   * Emits `wakeWordArmed` as listening starts and stops, and `wakeWordDetected`
+   * when the phrase is heard.
+   * @constructor
+   * @param getConfig - Returns the wake phrase and language to listen for.
+   */
+  constructor(private getConfig: () => WakeWordConfig) {
+    // Hand the microphone over whilst a command is being recorded
+    eventBus.on("voiceListeningChanged", ({ listening }) => {
+      this.paused = listening;
+      if (listening) {
+        this.stopRecognizer();
+      } else {
+        this.scheduleStart();
+      }
+    });
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden) {
+        this.stopRecognizer();
+      } else {
+        this.scheduleStart();
+      }
+    });
+  }
+
+  /**
+   * Turns always-listening on or off. Turning it off releases the microphone at once.
+   * @param enabled - Whether to listen for the wake phrase.
+   */
+  setEnabled = async (enabled: boolean) => {
+    const request = ++this.requests;
+    if (!enabled) {
+      this.armed = false;
+      this.stopRecognizer();
+      this.notify();
+      return;
+    }
+    if (this.armed) {
+      return;
+    }
+
+    const Recognizer = getSpeechRecognition();
+    if (!Recognizer) {
+      this.fail("Wake phrase needs speech recognition, which this browser lacks");
+      return;
+    }
+    const prepared = await this.prepareOnDevice();
+    // Turned off, or asked again, whilst the model was checked or downloaded
+    if (request !== this.requests) {
+      return;
+    }
+    if (!prepared) {
+      this.fail("Wake phrase needs on-device speech recognition, which is unavailable");
+      return;
+    }
+    this.armed = true;
+    this.notify();
+    this.scheduleStart();
+  };
+
+  // Makes sure the recogniser can run on the device, downloading its model if needed.
+  private async prepareOnDevice(): Promise<boolean> {
+    const Recognizer = getSpeechRecognition();
+    if (!Recognizer?.available) {
+      return false;
+    }
+    const options = { langs: [this.getConfig().languageCode], processLocally: true };
+    try {
+      const availability = await Recognizer.available(options);
+      if (availability === "available") {
+        return true;
+      }
+      if (availability === "unavailable" || !Recognizer.install) {
+        return false;
+      }
+      return await Recognizer.install(options);
+    } catch (error) {
+      console.warn("[voice][wake] On-device recognition check failed", error);
+      return false;
+    }
+  }
+
+  private scheduleStart(): void {
+    if (this.restartTimer !== null) {
+      window.clearTimeout(this.restartTimer);
+    }
+    this.restartTimer = window.setTimeout(() => {
+      this.restartTimer = null;
+      this.startRecognizer();
+    }, RESTART_DELAY);
+  }
+
+  private startRecognizer(): void {
+    const Recognizer = getSpeechRecognition();
+    if (!Recognizer || !this.armed || this.paused || this.recognizer || document.hidden) {
+      return;
+    }
+    const recognizer = new Recognizer();
+    recognizer.lang = this.getConfig().languageCode;
+    recognizer.continuous = true;
+    recognizer.interimResults = false;
+    recognizer.maxAlternatives = 1;
+    recognizer.processLocally = true;
+
+    recognizer.onresult = ({ results }) => {
+      const { phrase } = this.getConfig();
+      const result = results[results.length - 1];
+      const command = result?.isFinal ? matchWakePhrase(result[0]?.transcript ?? "", phrase) : null;
+      if (command === null) {
+        return;
+      }
+      // Start afresh, so the next result does not repeat this one
+      this.stopRecognizer();
+      eventBus.emit("wakeWordDetected", { phrase, command });
+      this.scheduleStart();
+    };
+    recognizer.onerror = ({ error }) => {
+      if (error === "not-allowed" || error === "service-not-allowed" || error === "language-not-supported") {
+        this.fail(`Wake phrase listening stopped: ${error}`);
+      }
+    };
+    // Recognisers stop after a while on their own; keep going whilst armed
+    recognizer.onend = () => {
+      if (this.recognizer === recognizer) {
+        this.recognizer = null;
+        this.scheduleStart();
+      }
+    };
+
+    this.recognizer = recognizer;
+    try {
+      recognizer.start();
+    } catch (error) {
+      this.recognizer = null;
+      this.fail("Wake phrase listening failed to start", error);
+    }
+  }
+
+  private stopRecognizer(): void {
+    if (this.restartTimer !== null) {
+      window.clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    const recognizer = this.recognizer;
+    this.recognizer = null;
+    recognizer?.stop();
+  }
+
+  private fail(message: string, error?: unknown): void {
+    console.warn("[voice][wake]", message, error ?? "");
+    this.armed = false;
+    this.stopRecognizer();
+    eventBus.emit("voiceError", { message, context: error });
+    this.notify(message);
+  }
+
+  private notify(error?: string): void {
+    eventBus.emit("wakeWordArmed", { armed: this.armed, phrase: this.getConfig().phrase, error });
+  }
+}
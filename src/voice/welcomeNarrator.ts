@@ -1,12 +1,23 @@
 import { eventBus } from "./eventBus";
+import { DEFAULT_LANGUAGE, LanguageCode, createLocalizedAudio } from "./language";
+import { welcomeText } from "./narrationText";
+import { SpeechSynth } from "./speech";
 
 export class WelcomeNarrator {
   private enabled = false;
   private current: HTMLAudioElement | null = null;
+  private spoken: SpeechSynthesisUtterance | null = null;
   private lastTarget: string | null = null;
   private readonly clips: Map<string, HTMLAudioElement> = new Map();
+  private readonly missing = new Set<string>();
 
-  constructor(private readonly bodies: string[], initiallyEnabled = false, initialTarget: string | null = null) {
+  constructor(
+    private readonly bodies: string[],
+    initiallyEnabled = false,
+    initialTarget: string | null = null,
+    private readonly getLanguage: () => LanguageCode = () => DEFAULT_LANGUAGE,
+    private readonly speech: SpeechSynth | null = null
+  ) {
     this.enabled = initiallyEnabled;
     this.lastTarget = initialTarget;
     if (this.enabled && this.lastTarget) {
@@ -41,22 +52,38 @@ export class WelcomeNarrator {
     if (!target) {
       return;
     }
+    this.stop();
     const clip = this.getClip(target);
     if (!clip) {
+      this.speak(target);
       return;
     }
-    this.stop();
     this.current = clip;
     this.current.currentTime = 0;
     const playPromise = this.current.play();
     if (playPromise && typeof playPromise.catch === "function") {
       playPromise.catch((error) => {
-        console.error("[voice][welcome] play failed", error);
+        if (!clip.error) {
+          console.error("[voice][welcome] play failed", error);
+        }
       });
     }
   }
 
+  // Has the browser say the welcome where there is no clip for it.
+  private speak(target: string) {
+    if (!this.speech) {
+      return;
+    }
+    const language = this.getLanguage();
+    this.spoken = this.speech.speak(welcomeText(target, language), language);
+  }
+
   private stop() {
+    if (this.spoken) {
+      this.speech?.stop(this.spoken);
+      this.spoken = null;
+    }
     if (this.current) {
       this.current.pause();
       this.current.currentTime = 0;
@@ -69,13 +96,23 @@ export class WelcomeNarrator {
     if (!key) {
       return null;
     }
-    if (!this.clips.has(key)) {
-      const src = `/audio/welcome-${key}.mp3`;
-      const audio = new Audio(src);
-      audio.preload = "auto";
-      this.clips.set(key, audio);
+    const language = this.getLanguage();
+    const clipKey = `${language}/${key}`;
+    if (this.missing.has(clipKey)) {
+      return null;
+    }
+    if (!this.clips.has(clipKey)) {
+      const audio = createLocalizedAudio(`welcome-${key}.mp3`, language, () => {
+        this.missing.add(clipKey);
+        this.clips.delete(clipKey);
+        if (this.current === audio) {
+          this.current = null;
+          this.speak(target);
+        }
+      });
+      this.clips.set(clipKey, audio);
     }
-    return this.clips.get(key) ?? null;
+    return this.clips.get(clipKey) ?? null;
   }
 
   private slug(target: string): string | null {
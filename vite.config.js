@@ -9,6 +9,7 @@ export default {
       "/api": {
         target: "http://localhost:4000",
         changeOrigin: true,
+        ws: true,
       },
     },
   },